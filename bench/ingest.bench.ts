@@ -0,0 +1,77 @@
+import { RedisLeaderboardStore } from "../src/adapters";
+import { bundleFromSchema, defineLbSchema, lbBoard, lbTimeframe } from "../src/schema";
+import type { LeaderboardIngestEntry } from "../src/types";
+import { createRedisInfra } from "../test/infra";
+
+// Compares the MULTI and Lua-script ingest paths on the same Redis.
+// Tune with BENCH_BATCH (entries per batch), BENCH_USERS and BENCH_ROUNDS.
+const batchSize = Number(process.env.BENCH_BATCH ?? 500);
+const userCount = Number(process.env.BENCH_USERS ?? 2_000);
+const rounds = Number(process.env.BENCH_ROUNDS ?? 20);
+
+const definition = defineLbSchema({
+  prefix: "bench:lb",
+  timeframes: {
+    hour: lbTimeframe.rolling("minute", 60),
+    day: lbTimeframe.rolling("hour", 24),
+    week: lbTimeframe.rolling("day", 7),
+    month: lbTimeframe.calendar("month"),
+    all: lbTimeframe.all(),
+  },
+  leaderboards: {
+    wagered: lbBoard.sum("hour", "day", "week", "month", "all"),
+    biggestWin: {
+      ...lbBoard.max("day", "week", "all"),
+      tieBreaker: { type: "firstToReach" },
+    },
+  },
+  defaults: { leaderboard: "wagered", timeframe: "day" },
+});
+
+type Entry = LeaderboardIngestEntry<"wagered" | "biggestWin">;
+
+function batch(round: number): Entry[] {
+  return Array.from({ length: batchSize }, (_, idx) => [
+    `u${(round * batchSize + idx * 7919) % userCount}`,
+    { wagered: 1 + ((idx * 31) % 100), biggestWin: (idx * 17) % 1_000 },
+  ]);
+}
+
+async function main() {
+  const infra = await createRedisInfra();
+  const client = infra.client as unknown as ConstructorParameters<
+    typeof RedisLeaderboardStore
+  >[0];
+  const { redis } = bundleFromSchema(definition);
+  const start = new Date(Date.UTC(2026, 0, 1));
+
+  try {
+    for (const ingestMode of ["multi", "script"] as const) {
+      await infra.clear();
+      const store = new RedisLeaderboardStore(client, { ...redis, ingestMode });
+      // Warm up connections and script caches outside the measured rounds.
+      await store.ingestWindows(batch(0), start);
+
+      const timings: number[] = [];
+      for (let round = 1; round <= rounds; round += 1) {
+        const date = new Date(start.getTime() + round * 60_000);
+        const began = performance.now();
+        await store.ingestWindows(batch(round), date);
+        timings.push(performance.now() - began);
+      }
+
+      timings.sort((a, b) => a - b);
+      const mean = timings.reduce((sum, ms) => sum + ms, 0) / timings.length;
+      const p95 = timings[Math.min(timings.length - 1, Math.floor(timings.length * 0.95))] ?? 0;
+      console.log(
+        `${ingestMode.padEnd(6)} ${rounds} x ${batchSize} entries: ` +
+          `mean ${mean.toFixed(1)}ms, p95 ${p95.toFixed(1)}ms, ` +
+          `${Math.round((batchSize * 1_000) / mean)} entries/s`,
+      );
+    }
+  } finally {
+    await infra.stop();
+  }
+}
+
+await main();
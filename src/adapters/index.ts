@@ -1,2 +1,3 @@
 export * from "./redis.store";
 export * from "./memory.store";
+export * from "./redis.profile";
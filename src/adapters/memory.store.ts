@@ -1,24 +1,62 @@
 import type { LeaderboardStorePort } from "../ports";
+import { LeaderboardConfigError } from "../service";
+import { entryMeta, groupEntriesByDate } from "../ingest";
+import { baseKey, planIncrementalBuild, touchesClosedBuckets } from "../incremental";
+import type { IncrementalPlan } from "../incremental";
+import { assignRanks, compareRankedRows, tieBreakValue } from "../ranking";
+import { createBuildVersion, snapshotKey } from "../snapshot";
 import type {
+  LeaderboardBuildInfo,
+  LeaderboardHistoryPoint,
   LeaderboardDelta,
+  LeaderboardIngestEntry,
+  LeaderboardIngestResult,
+  LeaderboardRankOptions,
+  LeaderboardReadOptions,
+  LeaderboardRemoveUserOptions,
   LeaderboardScores,
+  LeaderboardSnapshotOptions,
+  LeaderboardTieBreaker,
   RankedUser,
 } from "../types";
+import type { LeaderboardAggregation, RedisStoreConfig } from "./redis.store";
 
 type ScoreMap = Map<string, number>;
 
-type MemoryStoreConfig<TCategory extends string, TTimeframe extends string> = {
-  categories: readonly TCategory[];
-  timeframes: readonly TTimeframe[];
-};
+export type MemoryStoreConfig<TCategory extends string, TTimeframe extends string> = Pick<
+  RedisStoreConfig<TCategory, TTimeframe>,
+  | "categories"
+  | "timeframes"
+  | "categoryAggregation"
+  | "categoryTieBreakers"
+  | "resolveIngestKeys"
+  | "resolveBuildSourceKeys"
+  | "resolveRankKey"
+  | "resolveBucketStarts"
+  | "realtimeTimeframes"
+  | "rebuildStrategy"
+  | "resolveWindowTtlSeconds"
+  | "snapshotTtlSeconds"
+  | "eventIdTtlSeconds"
+>;
 
 export class MemoryLeaderboardStore<
   TCategory extends string,
   TTimeframe extends string,
 > implements LeaderboardStorePort<TCategory, TTimeframe>
 {
-  private windows = new Map<string, ScoreMap>();
-  private ranks = new Map<string, ScoreMap>();
+  // Single keyspace mirroring Redis, so custom key resolvers behave the same way.
+  private keys = new Map<string, ScoreMap>();
+  private expiries = new Map<string, number>();
+  // Ingested event IDs and when they may be accepted again, soonest first.
+  private events = new Map<string, number>();
+  // Window keys written per category and when they expire, like the Redis registry.
+  private windowRegistry = new Map<TCategory, Map<string, number>>();
+  // Registered keys each timeframe has been built from.
+  private builtSources = new Map<TTimeframe, Map<TCategory, Set<string>>>();
+  private builds = new Map<TTimeframe, LeaderboardBuildInfo>();
+  // Closed bucket keys behind each category's incremental base.
+  private incremental = new Map<TTimeframe, Map<TCategory, string[]>>();
 
   constructor(private config: MemoryStoreConfig<TCategory, TTimeframe>) {}
 
@@ -30,64 +68,420 @@ export class MemoryLeaderboardStore<
     return `rank:${timeframe}:${category}`;
   }
 
-  private getOrCreate(map: Map<string, ScoreMap>, key: string): ScoreMap {
-    const existing = map.get(key);
+  private resolveRankKey(timeframe: TTimeframe, category: TCategory): string {
+    return (
+      this.config.resolveRankKey?.({ timeframe, category }) ??
+      this.rankKey(timeframe, category)
+    );
+  }
+
+  private resolveIngestKeys(
+    timeframe: TTimeframe,
+    category: TCategory,
+    date: Date,
+  ): string[] {
+    return (
+      this.config.resolveIngestKeys?.({ timeframe, category, date }) ?? [
+        this.windowKey(timeframe, category),
+      ]
+    );
+  }
+
+  private resolveBuildSourceKeys(
+    timeframe: TTimeframe,
+    category: TCategory,
+    date: Date,
+  ): string[] {
+    return (
+      this.config.resolveBuildSourceKeys?.({ timeframe, category, date }) ?? [
+        this.windowKey(timeframe, category),
+      ]
+    );
+  }
+
+  private aggregationForCategory(category: TCategory): LeaderboardAggregation {
+    return this.config.categoryAggregation?.[category] ?? "sum";
+  }
+
+  private tieBreakerFor(category: TCategory): LeaderboardTieBreaker<TCategory> | undefined {
+    return this.config.categoryTieBreakers?.[category];
+  }
+
+  private isRealtime(timeframe: TTimeframe): boolean {
+    return this.config.realtimeTimeframes?.includes(timeframe) ?? false;
+  }
+
+  private tracksReach(category: TCategory): boolean {
+    return this.tieBreakerFor(category)?.type === "firstToReach";
+  }
+
+  private reachedKey(key: string): string {
+    return `${key}:reached`;
+  }
+
+  // Matches ZINCRBY / ZADD GT / ZADD LT on ingest and ZUNIONSTORE AGGREGATE on build.
+  private aggregate(
+    strategy: LeaderboardAggregation,
+    current: number | undefined,
+    value: number,
+  ): number {
+    if (current === undefined) return value;
+    if (strategy === "max") return Math.max(current, value);
+    if (strategy === "min") return Math.min(current, value);
+    return current + value;
+  }
+
+  private read(key: string): ScoreMap | undefined {
+    const expiresAt = this.expiries.get(key);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      this.keys.delete(key);
+      this.expiries.delete(key);
+      return undefined;
+    }
+    return this.keys.get(key);
+  }
+
+  private getOrCreate(key: string): ScoreMap {
+    const existing = this.read(key);
     if (existing) return existing;
     const created = new Map<string, number>();
-    map.set(key, created);
+    this.keys.set(key, created);
     return created;
   }
 
+  private write(key: string, value: ScoreMap): void {
+    this.expiries.delete(key);
+    if (value.size === 0) {
+      // Redis never keeps empty sorted sets around.
+      this.keys.delete(key);
+      return;
+    }
+    this.keys.set(key, value);
+  }
+
+  private expire(key: string, ttlSeconds: number): void {
+    if (!this.keys.has(key)) return;
+    this.expiries.set(key, Date.now() + ttlSeconds * 1000);
+  }
+
   async ingestWindows(
-    entries: Array<[string, LeaderboardDelta<TCategory>]>,
-  ): Promise<void> {
+    entries: Array<LeaderboardIngestEntry<TCategory>>,
+    date: Date = new Date(),
+  ): Promise<LeaderboardIngestResult> {
+    const now = Date.now();
+    const ttlMs = Math.max(1, Math.ceil(this.config.eventIdTtlSeconds ?? 86_400)) * 1000;
+    // Every ID gets the same TTL, so insertion order is expiry order.
+    for (const [eventId, expiresAt] of this.events) {
+      if (expiresAt > now) break;
+      this.events.delete(eventId);
+    }
+    const fresh = entries.filter(([, , meta]) => {
+      const { eventId } = entryMeta(meta);
+      if (eventId === undefined) return true;
+      if (this.events.has(eventId)) return false;
+      this.events.set(eventId, now + ttlMs);
+      return true;
+    });
+
+    const groups = groupEntriesByDate(fresh, date);
+    for (const [groupDate, group] of groups) {
+      this.ingestAt(group, groupDate);
+    }
+    // Same rule as the Redis adapter: writes to folded-in buckets reset incremental bases.
+    if (this.config.rebuildStrategy === "incremental") {
+      const written = this.writtenKeys(groups);
+      for (const [timeframe, closed] of this.incremental) {
+        if (touchesClosedBuckets(written, closed.values())) this.incremental.delete(timeframe);
+      }
+    }
+    return { applied: fresh.length, skipped: entries.length - fresh.length };
+  }
+
+  private writtenKeys(groups: Array<[Date, unknown]>): Set<string> {
+    return new Set(
+      groups.flatMap(([groupDate]) =>
+        this.config.timeframes.flatMap((timeframe) =>
+          this.config.categories.flatMap((category) =>
+            this.resolveIngestKeys(timeframe, category, groupDate),
+          ),
+        ),
+      ),
+    );
+  }
+
+  async timeframesAffectedBy(
+    entries: ReadonlyArray<LeaderboardIngestEntry<TCategory>>,
+    date: Date = new Date(),
+  ): Promise<TTimeframe[]> {
+    const written = this.writtenKeys(groupEntriesByDate(entries, date));
+    return this.config.timeframes.filter((timeframe) =>
+      this.config.categories.some((category) =>
+        this.resolveBuildSourceKeys(timeframe, category, date).some((key) => written.has(key)),
+      ),
+    );
+  }
+
+  private ingestAt(entries: Array<[string, LeaderboardDelta<TCategory>]>, date: Date): void {
+    const now = Date.now();
     for (const timeframe of this.config.timeframes) {
       for (const category of this.config.categories) {
-        const bucket = this.getOrCreate(
-          this.windows,
-          this.windowKey(timeframe, category),
+        const keys = this.resolveIngestKeys(timeframe, category, date);
+        if (keys.length === 0) continue;
+        const strategy = this.aggregationForCategory(category);
+        const tracksReach = this.tracksReach(category);
+        const registry = this.windowRegistry.get(category) ?? new Map<string, number>();
+        this.windowRegistry.set(category, registry);
+
+        for (const key of keys) {
+          const bucket = this.getOrCreate(key);
+          const reached = tracksReach ? this.getOrCreate(this.reachedKey(key)) : undefined;
+          for (const [userId, delta] of entries) {
+            const value = delta[category] ?? 0;
+            if (value === 0) continue;
+            const previous = bucket.get(userId);
+            const next = this.aggregate(strategy, previous, value);
+            bucket.set(userId, next);
+            if (reached && (strategy === "sum" || next !== previous)) {
+              reached.set(userId, date.getTime());
+            }
+          }
+          if (reached?.size === 0) this.keys.delete(this.reachedKey(key));
+          if (bucket.size === 0) {
+            this.keys.delete(key);
+            continue;
+          }
+
+          const ttl = this.config.resolveWindowTtlSeconds?.({
+            timeframe,
+            category,
+            date,
+            key,
+          });
+          if (typeof ttl === "number" && ttl > 0) {
+            this.expire(key, ttl);
+            if (tracksReach) this.expire(this.reachedKey(key), ttl);
+          }
+          registry.set(key, typeof ttl === "number" && ttl > 0 ? now + ttl * 1000 : Infinity);
+        }
+        for (const [key, expiresAt] of registry) {
+          if (expiresAt < now) registry.delete(key);
+        }
+      }
+    }
+  }
+
+  private union(
+    sources: string[],
+    strategy: LeaderboardAggregation,
+  ): ScoreMap {
+    const target = new Map<string, number>();
+    for (const sourceKey of sources) {
+      const source = this.read(sourceKey);
+      if (!source) continue;
+      for (const [userId, score] of source) {
+        target.set(userId, this.aggregate(strategy, target.get(userId), score));
+      }
+    }
+    return target;
+  }
+
+  private bestReach(sources: string[], best: ScoreMap): ScoreMap {
+    const target = new Map<string, number>();
+    for (const sourceKey of sources) {
+      const bucket = this.read(sourceKey);
+      const reached = this.read(this.reachedKey(sourceKey));
+      if (!bucket || !reached) continue;
+      for (const [userId, at] of reached) {
+        if (bucket.get(userId) !== best.get(userId)) continue;
+        target.set(userId, this.aggregate("min", target.get(userId), at));
+      }
+    }
+    return target;
+  }
+
+  async buildRankingFromWindows(
+    timeframe: TTimeframe,
+    date: Date = new Date(),
+    ttlSeconds = 300,
+  ): Promise<void> {
+    if (this.isRealtime(timeframe)) return;
+    const previous = this.builds.get(timeframe);
+    const builtAt = Date.now();
+    const version = createBuildVersion(builtAt);
+    const snapshotTtl = Math.max(ttlSeconds, this.config.snapshotTtlSeconds ?? 600);
+    const plans = this.planIncrementalBuilds(timeframe, date);
+
+    for (const category of this.config.categories) {
+      const sources = this.resolveBuildSourceKeys(timeframe, category, date);
+      const live = this.resolveRankKey(timeframe, category);
+      const staged = snapshotKey(live, version);
+      const strategy = this.aggregationForCategory(category);
+      const keys = [[staged, live]];
+      const plan = plans?.get(category);
+
+      const built = this.builtSources.get(timeframe) ?? new Map<TCategory, Set<string>>();
+      const registry = this.windowRegistry.get(category);
+      const recorded = new Set([...(built.get(category) ?? []), ...sources]);
+      built.set(category, new Set([...recorded].filter((key) => registry?.has(key))));
+      this.builtSources.set(timeframe, built);
+
+      if (plan) {
+        this.updateBase(baseKey(live), plan, snapshotTtl);
+        this.write(staged, this.union([baseKey(live), ...plan.live], "sum"));
+      } else {
+        this.write(staged, this.union(sources, strategy));
+      }
+      if (this.tracksReach(category)) {
+        // Same rule as the Redis adapter: latest change for sum, and for max/min the earliest
+        // bucket whose score equals the user's best.
+        this.write(
+          this.reachedKey(staged),
+          strategy === "sum"
+            ? this.union(sources.map((key) => this.reachedKey(key)), "max")
+            : this.bestReach(sources, this.read(staged) ?? new Map()),
         );
-        for (const [userId, delta] of entries) {
-          const value = delta[category] ?? 0;
-          if (value === 0) continue;
-          bucket.set(userId, (bucket.get(userId) ?? 0) + value);
+        keys.push([this.reachedKey(staged), this.reachedKey(live)]);
+      }
+
+      for (const [from, to] of keys as Array<[string, string]>) {
+        if (previous) {
+          // Keep the outgoing board as the previous build's snapshot, like the Redis adapter.
+          const retained =
+            to === live
+              ? snapshotKey(live, previous.version)
+              : this.reachedKey(snapshotKey(live, previous.version));
+          this.write(retained, new Map(this.read(to)));
+          this.expire(retained, snapshotTtl);
+        }
+        this.write(to, new Map(this.read(from)));
+        this.expire(from, snapshotTtl);
+        if (ttlSeconds > 0) {
+          this.expire(to, ttlSeconds);
         }
       }
     }
+
+    this.builds.set(timeframe, {
+      version,
+      builtAt,
+      previousVersion: previous?.version ?? null,
+    });
   }
 
-  async buildRankingFromWindows(timeframe: TTimeframe): Promise<void> {
+  async getBuildInfo(timeframe: TTimeframe): Promise<LeaderboardBuildInfo | null> {
+    return this.builds.get(timeframe) ?? null;
+  }
+
+  // Same eligibility and fallbacks as the Redis adapter.
+  private planIncrementalBuilds(
+    timeframe: TTimeframe,
+    date: Date,
+  ): Map<TCategory, IncrementalPlan> | null {
+    if (this.config.rebuildStrategy !== "incremental") return null;
+    const previous = this.incremental.get(timeframe);
+
+    const plans = new Map<TCategory, IncrementalPlan>();
     for (const category of this.config.categories) {
-      const source = this.windows.get(this.windowKey(timeframe, category));
-      const target = new Map<string, number>();
-      if (source) {
-        for (const [userId, score] of source) {
-          target.set(userId, score);
+      if (this.aggregationForCategory(category) !== "sum" || this.tracksReach(category)) continue;
+      const sources = this.resolveBuildSourceKeys(timeframe, category, date);
+      if (sources.length === 0) continue;
+
+      const current = new Set(
+        this.config.timeframes.flatMap((tf) => this.resolveIngestKeys(tf, category, date)),
+      );
+      const prior = previous?.get(category) ?? null;
+      let plan = planIncrementalBuild(sources, current, prior);
+      if (plan.dropped) {
+        const base = baseKey(this.resolveRankKey(timeframe, category));
+        const required = prior && prior.length > 0 ? [base, ...plan.dropped] : plan.dropped;
+        if (required.some((key) => !this.read(key))) {
+          plan = planIncrementalBuild(sources, current, null);
         }
       }
-      this.ranks.set(this.rankKey(timeframe, category), target);
+      plans.set(category, plan);
     }
+
+    this.incremental.set(
+      timeframe,
+      new Map([...plans].map(([category, plan]) => [category, plan.closed])),
+    );
+    return plans;
   }
 
-  async getTopRankedUsers(
+  private updateBase(key: string, plan: IncrementalPlan, ttlSeconds: number): void {
+    if (plan.dropped === null) {
+      this.write(key, this.union(plan.closed, "sum"));
+    } else {
+      const base = new Map(this.read(key));
+      const apply = (sources: string[], weight: number) => {
+        for (const source of sources) {
+          for (const [userId, score] of this.read(source) ?? []) {
+            base.set(userId, (base.get(userId) ?? 0) + weight * score);
+          }
+        }
+      };
+      apply(plan.added, 1);
+      apply(plan.dropped, -1);
+      // Keep exactly the members of the closed buckets, zero totals included.
+      const members = this.union(plan.closed, "sum");
+      for (const userId of base.keys()) {
+        if (!members.has(userId)) base.delete(userId);
+      }
+      this.write(key, base);
+    }
+    this.expire(key, ttlSeconds);
+  }
+
+  private versionedRankKey(
+    timeframe: TTimeframe,
+    category: TCategory,
+    version?: string | null,
+  ): string {
+    const live = this.resolveRankKey(timeframe, category);
+    if (!version || this.builds.get(timeframe)?.version === version) return live;
+    return snapshotKey(live, version);
+  }
+
+  private rankedRows(
     timeframe: TTimeframe,
     category: TCategory,
-    limit: number,
     descending: boolean,
-  ): Promise<RankedUser[] | null> {
-    const rank = this.ranks.get(this.rankKey(timeframe, category));
+    options?: LeaderboardRankOptions,
+  ): RankedUser[] | null {
+    const key = this.versionedRankKey(timeframe, category, options?.version);
+    const rank = this.read(key);
     if (!rank) return null;
 
+    const tieBreaker = this.tieBreakerFor(category);
+    const tieBreaks = !tieBreaker
+      ? undefined
+      : tieBreaker.type === "firstToReach"
+        ? this.read(this.reachedKey(key))
+        : this.read(this.versionedRankKey(timeframe, tieBreaker.category, options?.version));
+
     const rows = [...rank.entries()]
-      .map(([userId, score]) => ({ userId, score }))
-      .sort((a, b) => (descending ? b.score - a.score : a.score - b.score))
-      .slice(0, limit);
+      .map(([userId, score]) => ({
+        userId,
+        score,
+        tieBreak: tieBreaker ? tieBreakValue(tieBreaker, tieBreaks?.get(userId)) : undefined,
+      }))
+      .sort((a, b) => compareRankedRows(a, b, descending));
 
-    return rows.map((row, idx) => ({
-      userId: row.userId,
-      score: row.score,
-      rank: idx + 1,
-    }));
+    return assignRanks(rows, options?.rankStrategy ?? "ordinal");
+  }
+
+  async getTopRankedUsers(
+    timeframe: TTimeframe,
+    category: TCategory,
+    limit: number,
+    descending: boolean,
+    options?: LeaderboardReadOptions,
+  ): Promise<RankedUser[] | null> {
+    const rows = this.rankedRows(timeframe, category, descending, options);
+    if (!rows) return null;
+
+    const offset = options?.offset ?? 0;
+    return rows.slice(offset, offset + limit);
   }
 
   async getUserRank(
@@ -95,22 +489,180 @@ export class MemoryLeaderboardStore<
     timeframe: TTimeframe,
     category: TCategory,
     descending: boolean,
+    options?: LeaderboardRankOptions,
   ): Promise<RankedUser | null> {
-    const rank = await this.getTopRankedUsers(
-      timeframe,
-      category,
-      Number.MAX_SAFE_INTEGER,
-      descending,
+    const rows = this.rankedRows(timeframe, category, descending, options);
+    return rows?.find((item) => item.userId === userId) ?? null;
+  }
+
+  async getUsersAround(
+    userId: string,
+    timeframe: TTimeframe,
+    category: TCategory,
+    above: number,
+    below: number,
+    descending: boolean,
+    options?: LeaderboardRankOptions,
+  ): Promise<RankedUser[] | null> {
+    const rows = this.rankedRows(timeframe, category, descending, options);
+    if (!rows) return null;
+
+    const idx = rows.findIndex((item) => item.userId === userId);
+    if (idx === -1) return null;
+
+    return rows.slice(Math.max(0, idx - above), idx + below + 1);
+  }
+
+  async getPreviousRanks(
+    userIds: string[],
+    timeframe: TTimeframe,
+    category: TCategory,
+    descending: boolean,
+    options?: LeaderboardRankOptions,
+  ): Promise<Map<string, number>> {
+    const out = new Map<string, number>();
+    const current = this.builds.get(timeframe);
+    if (!current?.previousVersion) return out;
+    if (options?.version && options.version !== current.version) return out;
+
+    const wanted = new Set(userIds);
+    const rows = this.rankedRows(timeframe, category, descending, {
+      ...options,
+      version: current.previousVersion,
+    });
+    for (const row of rows ?? []) {
+      if (wanted.has(row.userId)) out.set(row.userId, row.rank);
+    }
+    return out;
+  }
+
+  async getUserHistory(
+    userId: string,
+    category: TCategory,
+    timeframe: TTimeframe,
+    date: Date = new Date(),
+  ): Promise<LeaderboardHistoryPoint[]> {
+    const starts = this.config.resolveBucketStarts?.({ timeframe, category, date });
+    const points: LeaderboardHistoryPoint[] = [];
+    for (const key of this.resolveBuildSourceKeys(timeframe, category, date)) {
+      const start = starts?.get(key);
+      if (start) points.push([start.getTime(), this.read(key)?.get(userId) ?? 0]);
+    }
+    return points.sort(([a], [b]) => a - b);
+  }
+
+  async countRanked(
+    timeframe: TTimeframe,
+    category: TCategory,
+    options?: LeaderboardSnapshotOptions,
+  ): Promise<number> {
+    return this.read(this.versionedRankKey(timeframe, category, options?.version))?.size ?? 0;
+  }
+
+  async hasRanking(timeframe: TTimeframe, category: TCategory): Promise<boolean> {
+    if (this.isRealtime(timeframe)) return true;
+    return this.read(this.resolveRankKey(timeframe, category)) !== undefined;
+  }
+
+  private removeMember(key: string, userId: string): void {
+    const value = this.read(key);
+    if (!value) return;
+    value.delete(userId);
+    if (value.size === 0) {
+      this.keys.delete(key);
+      this.expiries.delete(key);
+    }
+  }
+
+  private delete(key: string): void {
+    this.keys.delete(key);
+    this.expiries.delete(key);
+  }
+
+  // Same refusal as the Redis adapter for buckets a timeframe outside `scope` reads.
+  private assertUnshared(
+    operation: string,
+    category: TCategory,
+    scope: readonly TTimeframe[],
+    keys: string[],
+    date: Date,
+  ): void {
+    const touched = new Set(keys);
+    const sharing = this.config.timeframes.filter(
+      (timeframe) =>
+        !scope.includes(timeframe) &&
+        [
+          this.resolveRankKey(timeframe, category),
+          ...this.resolveBuildSourceKeys(timeframe, category, date),
+          ...(this.builtSources.get(timeframe)?.get(category) ?? []),
+        ].some((key) => touched.has(key)),
     );
-    if (!rank) return null;
+    if (sharing.length > 0) {
+      throw new LeaderboardConfigError(
+        `${operation} on ${scope.join(", ")} would clear ${category} buckets that ` +
+          `${sharing.join(", ")} also read`,
+      );
+    }
+  }
+
+  async removeUser(
+    userId: string,
+    options?: LeaderboardRemoveUserOptions<TCategory, TTimeframe>,
+  ): Promise<void> {
+    const categories = options?.categories ?? this.config.categories;
+    const timeframes = options?.timeframes ?? this.config.timeframes;
+    const date = new Date();
 
-    const row = rank.find((item) => item.userId === userId);
-    return row ?? null;
+    for (const category of categories) {
+      const registered = [...(this.windowRegistry.get(category) ?? [])].flatMap(
+        ([key, expiresAt]) => (expiresAt >= date.getTime() ? [key] : []),
+      );
+      const windowKeys = options?.timeframes
+        ? [
+            ...registered.filter((key) =>
+              timeframes.some((timeframe) =>
+                this.builtSources.get(timeframe)?.get(category)?.has(key),
+              ),
+            ),
+            ...timeframes.flatMap((timeframe) =>
+              this.resolveBuildSourceKeys(timeframe, category, date),
+            ),
+          ]
+        : registered;
+      if (options?.timeframes) {
+        this.assertUnshared("removeUser", category, timeframes, windowKeys, date);
+      }
+      const keys = new Set([
+        ...windowKeys,
+        ...timeframes.map((timeframe) => this.resolveRankKey(timeframe, category)),
+      ]);
+      for (const key of keys) {
+        this.removeMember(key, userId);
+        if (this.tracksReach(category)) this.removeMember(this.reachedKey(key), userId);
+      }
+    }
+    this.incremental.clear();
+  }
+
+  async resetBoard(
+    category: TCategory,
+    timeframe: TTimeframe,
+    date: Date = new Date(),
+  ): Promise<void> {
+    const sources = this.resolveBuildSourceKeys(timeframe, category, date);
+    this.assertUnshared("resetBoard", category, [timeframe], sources, date);
+    const keys = [this.resolveRankKey(timeframe, category), ...sources];
+    for (const key of keys) {
+      this.delete(key);
+      if (this.tracksReach(category)) this.delete(this.reachedKey(key));
+    }
+    this.incremental.clear();
   }
 
   async getScoresBatch(
     timeframe: TTimeframe,
     userIds: string[],
+    options?: LeaderboardSnapshotOptions,
   ): Promise<Map<string, LeaderboardScores<TCategory>>> {
     if (userIds.length === 0) return new Map();
 
@@ -118,7 +670,7 @@ export class MemoryLeaderboardStore<
     for (const userId of userIds) {
       const scores = {} as Record<TCategory, number>;
       for (const category of this.config.categories) {
-        const rank = this.ranks.get(this.rankKey(timeframe, category));
+        const rank = this.read(this.versionedRankKey(timeframe, category, options?.version));
         scores[category] = rank?.get(userId) ?? 0;
       }
       output.set(userId, scores);
@@ -0,0 +1,117 @@
+import type { MetadataPort, UsernamePort } from "../ports";
+import type { LeaderboardMetadata } from "../types";
+
+// Writes the merged value only if the field still holds what the merge was computed from.
+const MERGE_METADATA_SCRIPT = `
+if (redis.call("HGET", KEYS[1], ARGV[1]) or "") ~= ARGV[2] then
+  return 0
+end
+redis.call("HSET", KEYS[1], ARGV[1], ARGV[3])
+return 1
+`;
+
+export type RedisProfileClient = {
+  hmGet: (key: string, fields: string[]) => Promise<Array<string | null>>;
+  hGet: (key: string, field: string) => Promise<string | null>;
+  hSet: (key: string, value: Record<string, string>) => Promise<number>;
+  /** Lets `mergeMetadata` compare and set in one step when present. */
+  eval?: (
+    script: string,
+    options: { keys: string[]; arguments: string[] },
+  ) => Promise<unknown>;
+};
+
+/** The `names` / `metadata` key helpers every bundle returns as `keys`. */
+export type RedisProfileKeys<TTimeframe extends string> = {
+  names: () => string;
+  metadata: (timeframe: TTimeframe) => string;
+};
+
+/**
+ * `UsernamePort` and `MetadataPort` backed by Redis hashes: usernames live in
+ * `keys.names()` and metadata, JSON-encoded, in `keys.metadata(timeframe)`, both
+ * keyed by user ID.
+ */
+export class RedisProfileStore<
+  TTimeframe extends string,
+  TMetadata extends LeaderboardMetadata = LeaderboardMetadata,
+> implements UsernamePort, MetadataPort<TTimeframe, TMetadata>
+{
+  constructor(
+    private client: RedisProfileClient,
+    private keys: RedisProfileKeys<TTimeframe>,
+  ) {}
+
+  async getUsernames(userIds: string[]): Promise<Map<string, string>> {
+    const out = new Map<string, string>();
+    if (userIds.length === 0) return out;
+
+    const names = await this.client.hmGet(this.keys.names(), userIds);
+    userIds.forEach((userId, idx) => {
+      const name = names[idx];
+      if (name) out.set(userId, name);
+    });
+    return out;
+  }
+
+  async getMetadata(timeframe: TTimeframe, userIds: string[]): Promise<Map<string, TMetadata>> {
+    const out = new Map<string, TMetadata>();
+    if (userIds.length === 0) return out;
+
+    const raw = await this.client.hmGet(this.keys.metadata(timeframe), userIds);
+    userIds.forEach((userId, idx) => {
+      const metadata = this.parse(raw[idx]);
+      if (metadata) out.set(userId, metadata);
+    });
+    return out;
+  }
+
+  async setUsername(userId: string, username: string): Promise<void> {
+    await this.client.hSet(this.keys.names(), { [userId]: username });
+  }
+
+  /**
+   * Shallow-merges `patch` into the user's metadata for `timeframe` and returns the
+   * result. With `eval`, the write is a compare-and-set that retries when another
+   * merge got in between, so concurrent merges keep each other's fields. Without it
+   * the read and the write are two calls and a concurrent merge can lose a field.
+   */
+  async mergeMetadata(
+    timeframe: TTimeframe,
+    userId: string,
+    patch: Partial<TMetadata>,
+  ): Promise<TMetadata> {
+    const key = this.keys.metadata(timeframe);
+    for (;;) {
+      const current = await this.client.hGet(key, userId);
+      const merged = { ...this.parse(current), ...patch } as TMetadata;
+      if (!this.client.eval) {
+        await this.client.hSet(key, { [userId]: JSON.stringify(merged) });
+        return merged;
+      }
+      const written = await this.client.eval(MERGE_METADATA_SCRIPT, {
+        keys: [key],
+        arguments: [userId, current ?? "", JSON.stringify(merged)],
+      });
+      if (Number(written) === 1) return merged;
+    }
+  }
+
+  // Values this store did not write are treated as missing rather than failing the read.
+  private parse(raw: string | null | undefined): TMetadata | null {
+    if (!raw) return null;
+    try {
+      const value: unknown = JSON.parse(raw);
+      return value !== null && typeof value === "object" ? (value as TMetadata) : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export function createRedisProfileStore<
+  TTimeframe extends string,
+  TMetadata extends LeaderboardMetadata = LeaderboardMetadata,
+>(client: RedisProfileClient, keys: RedisProfileKeys<TTimeframe>) {
+  return new RedisProfileStore<TTimeframe, TMetadata>(client, keys);
+}
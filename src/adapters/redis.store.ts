@@ -1,12 +1,115 @@
 import type { LeaderboardStorePort } from "../ports";
+import { entryMeta, groupEntriesByDate } from "../ingest";
+import { baseKey, planIncrementalBuild, touchesClosedBuckets } from "../incremental";
+import type { IncrementalPlan } from "../incremental";
+import { assignRanks, compareRankedRows, countDistinctRanks, tieBreakValue } from "../ranking";
+import { LeaderboardConfigError } from "../service";
+import { createBuildVersion, snapshotKey } from "../snapshot";
 import type {
+  LeaderboardBuildInfo,
+  LeaderboardHistoryPoint,
   LeaderboardDelta,
+  LeaderboardIngestEntry,
+  LeaderboardIngestResult,
+  LeaderboardRankOptions,
+  LeaderboardReadOptions,
+  LeaderboardRemoveUserOptions,
   LeaderboardScores,
+  LeaderboardSnapshotOptions,
+  LeaderboardTieBreaker,
+  RankStrategy,
   RankedUser,
 } from "../types";
 
 export type LeaderboardAggregation = "sum" | "max" | "min";
 
+// One op per window key: `k`/`g`/`r` index KEYS (window, registry, reached; `r` 0 = no reach
+// tracking), `a` is the aggregation, `t` the TTL (0 = none), `e` the registry score and `m`
+// the [member, value] pairs. ARGV[2] is the time before which registry entries have expired.
+// ARGV[3] lists the KEYS indexes of event claims and ARGV[4] their TTL: if any claim is taken
+// the script writes nothing and returns the taken positions in that list, otherwise it sets
+// the claims after the writes and returns an empty list.
+// Values, `at` and `e` travel as strings so Lua's number formatting cannot round them.
+const INGEST_SCRIPT = `
+local ops = cjson.decode(ARGV[1])
+local claims = cjson.decode(ARGV[3])
+local taken = {}
+for i, c in ipairs(claims) do
+  if redis.call("EXISTS", KEYS[c]) == 1 then
+    taken[#taken + 1] = i
+  end
+end
+if #taken > 0 then
+  return taken
+end
+local function zaddAt(key, at, members)
+  for i = 1, #members, 500 do
+    local args = {}
+    for j = i, math.min(i + 499, #members) do
+      args[#args + 1] = at
+      args[#args + 1] = members[j]
+    end
+    redis.call("ZADD", key, unpack(args))
+  end
+end
+for _, op in ipairs(ops) do
+  local key = KEYS[op.k]
+  redis.call("ZADD", KEYS[op.g], op.e, key)
+  redis.call("ZREMRANGEBYSCORE", KEYS[op.g], "-inf", "(" .. ARGV[2])
+  local reached = {}
+  for _, pair in ipairs(op.m) do
+    if op.a == "sum" then
+      redis.call("ZINCRBY", key, pair[2], pair[1])
+      reached[#reached + 1] = pair[1]
+    elseif redis.call("ZADD", key, op.a == "max" and "GT" or "LT", "CH", pair[2], pair[1]) == 1 then
+      reached[#reached + 1] = pair[1]
+    end
+  end
+  if op.r > 0 and #reached > 0 then
+    zaddAt(KEYS[op.r], op.at, reached)
+  end
+  if op.t > 0 then
+    redis.call("EXPIRE", key, op.t)
+    if op.r > 0 then
+      redis.call("EXPIRE", KEYS[op.r], op.t)
+    end
+  end
+end
+for _, c in ipairs(claims) do
+  redis.call("SET", KEYS[c], "1", "EX", ARGV[4])
+end
+return {}
+`;
+
+// Deletes KEYS[1] only while it still holds the caller's token (ARGV[1]).
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0
+`;
+
+type IngestScriptOp = {
+  k: number;
+  g: number;
+  r: number;
+  a: LeaderboardAggregation;
+  t: number;
+  e: string;
+  at: string;
+  m: Array<[string, string]>;
+};
+
+// Where a read gets its scores and, when configured, its tie-break values.
+type RankSource<TCategory extends string> = {
+  key: string;
+  tieBreaker?: LeaderboardTieBreaker<TCategory>;
+  tieBreakKey?: string;
+};
+
+type SortedSetRow = { value: string; score: number };
+type WeightedKey = { key: string; weight: number };
+
 export type RedisLeaderboardClient = {
   multi: () => {
     zIncrBy: (key: string, increment: number, member: string) => unknown;
@@ -17,25 +120,62 @@ export type RedisLeaderboardClient = {
     ) => unknown;
     zUnionStore: (
       destination: string,
-      keys: [string, ...string[]] | string[],
+      keys: [string, ...string[]] | [WeightedKey, ...WeightedKey[]],
+      options: { AGGREGATE: "SUM" | "MIN" | "MAX" },
+    ) => unknown;
+    zInterStore: (
+      destination: string,
+      keys: [WeightedKey, ...WeightedKey[]],
       options: { AGGREGATE: "SUM" | "MIN" | "MAX" },
     ) => unknown;
+    zRemRangeByScore: (key: string, min: number | string, max: number | string) => unknown;
+    zRangeWithScores: (
+      key: string,
+      start: number | string,
+      stop: number | string,
+      options?: { REV?: boolean; BY?: "SCORE" },
+    ) => unknown;
+    zCount: (key: string, min: number | string, max: number | string) => unknown;
+    zRank: (key: string, member: string) => unknown;
+    zRevRank: (key: string, member: string) => unknown;
     expire: (key: string, ttlSeconds: number) => unknown;
     del: (key: string) => unknown;
     zmScore: (key: string, members: string[]) => unknown;
+    zRem: (key: string, members: string | string[]) => unknown;
+    hSet: (key: string, value: Record<string, string>) => unknown;
     exec: () => Promise<unknown>;
     execAsPipeline: () => Promise<unknown>;
   };
   ttl: (key: string) => Promise<number>;
   zRangeWithScores: (
     key: string,
-    start: number,
-    stop: number,
-    options?: { REV?: boolean },
+    start: number | string,
+    stop: number | string,
+    options?: { REV?: boolean; BY?: "SCORE" },
   ) => Promise<Array<{ value: string; score: number }>>;
+  zCount: (key: string, min: number | string, max: number | string) => Promise<number>;
   zRevRank: (key: string, member: string) => Promise<number | null>;
   zRank: (key: string, member: string) => Promise<number | null>;
   zScore: (key: string, member: string) => Promise<number | null>;
+  zmScore: (key: string, members: string[]) => Promise<Array<number | null>>;
+  zCard: (key: string) => Promise<number>;
+  exists: (key: string) => Promise<number>;
+  set: (
+    key: string,
+    value: string,
+    options?: { NX?: true; EX?: number },
+  ) => Promise<string | null>;
+  get: (key: string) => Promise<string | null>;
+  del: (key: string) => Promise<number>;
+  hGetAll: (key: string) => Promise<Record<string, string>>;
+  /**
+   * Needed with `ingestMode: "script"` or entries carrying an `eventId`. Lock release
+   * uses it to compare and delete in one step when present.
+   */
+  eval?: (
+    script: string,
+    options: { keys: string[]; arguments: string[] },
+  ) => Promise<unknown>;
 };
 
 export type RedisStoreConfig<TCategory extends string, TTimeframe extends string> = {
@@ -43,6 +183,7 @@ export type RedisStoreConfig<TCategory extends string, TTimeframe extends string
   categories: readonly TCategory[];
   timeframes: readonly TTimeframe[];
   categoryAggregation?: Partial<Record<TCategory, LeaderboardAggregation>>;
+  categoryTieBreakers?: Partial<Record<TCategory, LeaderboardTieBreaker<TCategory>>>;
   resolveIngestKeys?: (ctx: {
     timeframe: TTimeframe;
     category: TCategory;
@@ -54,10 +195,44 @@ export type RedisStoreConfig<TCategory extends string, TTimeframe extends string
     date: Date;
   }) => string[];
   resolveRankKey?: (ctx: { timeframe: TTimeframe; category: TCategory }) => string;
+  /**
+   * Build source keys for `date` mapped to the start of the bucket each covers, for
+   * `getUserHistory`. Called once per history read. Keys missing from the map are left
+   * out of the history.
+   */
+  resolveBucketStarts?: (ctx: {
+    timeframe: TTimeframe;
+    category: TCategory;
+    date: Date;
+  }) => ReadonlyMap<string, Date>;
+  /**
+   * Timeframes whose `resolveRankKey` names a key ingest writes to directly. Writes
+   * are visible at once, and `buildRankingFromWindows` leaves them alone.
+   */
+  realtimeTimeframes?: readonly TTimeframe[];
+  /**
+   * `incremental` keeps each `sum` board's closed buckets in a base key and only adds
+   * the buckets that closed and subtracts those that dropped out since the last build.
+   * `max`/`min` boards, `firstToReach` sum boards and builds without usable previous
+   * state fall back to the full union. Default: `full`.
+   */
+  rebuildStrategy?: "full" | "incremental";
+  /** Lifetime of rank snapshots kept for pinned reads. Default: 600, never below the rank TTL. */
+  snapshotTtlSeconds?: number;
+  /** How long an ingested `eventId` is remembered for deduplication. Default: 86400. */
+  eventIdTtlSeconds?: number;
+  /**
+   * `multi` queues every write in one transaction; `script` ships the batch to a
+   * Lua script that applies it server-side in one call. Batches carrying an `eventId`
+   * always use the script, which claims the IDs with the writes. Default: `multi`.
+   */
+  ingestMode?: "multi" | "script";
+  /** Called once per ingested window key; `null`/`undefined` leaves the key without a TTL. */
   resolveWindowTtlSeconds?: (ctx: {
     timeframe: TTimeframe;
     category: TCategory;
     date: Date;
+    key: string;
   }) => number | null | undefined;
 };
 
@@ -69,7 +244,11 @@ export class RedisLeaderboardStore<
   constructor(
     private client: RedisLeaderboardClient,
     private config: RedisStoreConfig<TCategory, TTimeframe>,
-  ) {}
+  ) {
+    if (config.ingestMode === "script" && !client.eval) {
+      throw new LeaderboardConfigError('ingestMode "script" needs a client with eval()');
+    }
+  }
 
   private windowKey(timeframe: TTimeframe, category: TCategory): string {
     return `${this.config.prefix}:window:${timeframe}:${category}`;
@@ -79,6 +258,40 @@ export class RedisLeaderboardStore<
     return `${this.config.prefix}:rank:${timeframe}:${category}`;
   }
 
+  // Window keys written per category, scored by when they expire (+inf without a TTL),
+  // so removals reach old buckets. Ingest prunes the expired ones.
+  private windowRegistryKey(category: TCategory): string {
+    return `${this.config.prefix}:registry:${category}`;
+  }
+
+  // Window keys a timeframe has been built from. Each build drops the ones the registry
+  // has pruned.
+  private builtSourcesKey(timeframe: TTimeframe, category: TCategory): string {
+    return `${this.config.prefix}:sources:${timeframe}:${category}`;
+  }
+
+  private windowExpiry(ttl: number | null | undefined, now: number): number {
+    return typeof ttl === "number" && ttl > 0 ? now + ttl * 1000 : Infinity;
+  }
+
+  // Hash describing the live build of a timeframe: version, builtAt, previousVersion.
+  private buildKey(timeframe: TTimeframe): string {
+    return `${this.config.prefix}:build:${timeframe}`;
+  }
+
+  private lockKey(name: string): string {
+    return `${this.config.prefix}:lock:${name}`;
+  }
+
+  // Closed bucket keys behind each category's base, as JSON, per timeframe.
+  private incrementalKey(timeframe: TTimeframe): string {
+    return `${this.config.prefix}:incremental:${timeframe}`;
+  }
+
+  private eventKey(eventId: string): string {
+    return `${this.config.prefix}:event:${eventId}`;
+  }
+
   private resolveRankKey(timeframe: TTimeframe, category: TCategory): string {
     return (
       this.config.resolveRankKey?.({ timeframe, category }) ??
@@ -121,19 +334,265 @@ export class RedisLeaderboardStore<
     return "SUM";
   }
 
+  private tieBreakerFor(category: TCategory): LeaderboardTieBreaker<TCategory> | undefined {
+    return this.config.categoryTieBreakers?.[category];
+  }
+
+  private isRealtime(timeframe: TTimeframe): boolean {
+    return this.config.realtimeTimeframes?.includes(timeframe) ?? false;
+  }
+
+  private tracksReach(category: TCategory): boolean {
+    return this.tieBreakerFor(category)?.type === "firstToReach";
+  }
+
+  // Companion sorted set holding the time each member reached its current score.
+  private reachedKey(key: string): string {
+    return `${key}:reached`;
+  }
+
+  // max/min only record a reach time when the score improves, so read the
+  // current bucket scores for those keys before queueing the writes.
+  private async readReachBaseline(
+    keys: string[],
+    userIds: string[],
+  ): Promise<Map<string, Map<string, number | null>>> {
+    const baseline = new Map<string, Map<string, number | null>>();
+    if (keys.length === 0 || userIds.length === 0) return baseline;
+
+    const multi = this.client.multi();
+    for (const key of keys) {
+      multi.zmScore(key, userIds);
+    }
+    const raw = (await multi.execAsPipeline()) as Array<Array<number | null>>;
+    keys.forEach((key, keyIdx) => {
+      baseline.set(
+        key,
+        new Map(userIds.map((userId, userIdx) => [userId, raw[keyIdx]?.[userIdx] ?? null])),
+      );
+    });
+    return baseline;
+  }
+
   async ingestWindows(
-    entries: Array<[string, LeaderboardDelta<TCategory>]>,
+    entries: Array<LeaderboardIngestEntry<TCategory>>,
     date: Date = new Date(),
-  ): Promise<void> {
+  ): Promise<LeaderboardIngestResult> {
+    // A repeated ID within the batch is skipped up front; the first entry keeps it.
+    const seen = new Set<string>();
+    const pending = entries.flatMap((entry): Array<[typeof entry, string | null]> => {
+      const { eventId } = entryMeta(entry[2]);
+      if (eventId === undefined) return [[entry, null]];
+      if (seen.has(eventId)) return [];
+      seen.add(eventId);
+      return [[entry, this.eventKey(eventId)]];
+    });
+
+    if (this.config.ingestMode === "script" || seen.size > 0) {
+      if (!this.client.eval) {
+        throw new LeaderboardConfigError("eventId dedupe needs a client with eval()");
+      }
+      const applied = await this.claimAndIngest(pending, date);
+      return { applied, skipped: entries.length - applied };
+    }
+
+    const fresh = pending.map(([entry]) => entry);
+    const result = { applied: fresh.length, skipped: entries.length - fresh.length };
+    if (fresh.length === 0) return result;
+    const groups = groupEntriesByDate(fresh, date);
+
+    const baselineKeys = new Set<string>();
+    for (const [groupDate] of groups) {
+      for (const timeframe of this.config.timeframes) {
+        for (const category of this.config.categories) {
+          if (!this.tracksReach(category) || this.aggregationForCategory(category) === "sum") {
+            continue;
+          }
+          for (const key of this.resolveIngestKeys(timeframe, category, groupDate)) {
+            baselineKeys.add(key);
+          }
+        }
+      }
+    }
+    const baseline = await this.readReachBaseline(
+      [...baselineKeys],
+      [...new Set(fresh.map(([userId]) => userId))],
+    );
+
+    // Groups are oldest first, so reach times stay earliest-wins within one batch.
+    const multi = this.client.multi();
+    for (const [groupDate, group] of groups) {
+      this.queueIngest(multi, group, groupDate, baseline);
+    }
+    await multi.exec();
+    await this.dropStaleIncrementalState(groups);
+    return result;
+  }
+
+  /**
+   * Applies entries through `INGEST_SCRIPT`, which claims their event IDs in the same
+   * call. A pass that finds claims taken writes nothing, so the next pass drops those
+   * entries and tries again. Resolves to the number of entries applied.
+   */
+  private async claimAndIngest(
+    pending: Array<[LeaderboardIngestEntry<TCategory>, string | null]>,
+    date: Date,
+  ): Promise<number> {
+    let remaining = pending;
+    while (remaining.length > 0) {
+      const groups = groupEntriesByDate(
+        remaining.map(([entry]) => entry),
+        date,
+      );
+      const claims = remaining.flatMap(([, claim]) => (claim === null ? [] : [claim]));
+      const taken = new Set(await this.scriptIngest(groups, claims));
+      if (taken.size === 0) {
+        await this.dropStaleIncrementalState(groups);
+        break;
+      }
+      remaining = remaining.filter(([, claim]) => claim === null || !taken.has(claim));
+    }
+    return remaining.length;
+  }
+
+  // Incremental bases never see writes to buckets they already folded in, so once a
+  // batch has landed, timeframes whose closed buckets it wrote go back to a full union.
+  private async dropStaleIncrementalState(groups: Array<[Date, unknown]>) {
+    if (this.config.rebuildStrategy !== "incremental") return;
+    const written = this.writtenKeys(groups);
+    const states = await Promise.all(
+      this.config.timeframes.map((timeframe) =>
+        this.client.hGetAll(this.incrementalKey(timeframe)),
+      ),
+    );
+    const stale = this.config.timeframes.filter((_, idx) =>
+      touchesClosedBuckets(
+        written,
+        Object.values(states[idx] ?? {}).map((raw) => JSON.parse(raw) as string[]),
+      ),
+    );
+    if (stale.length === 0) return;
+
     const multi = this.client.multi();
+    for (const timeframe of stale) {
+      multi.del(this.incrementalKey(timeframe));
+    }
+    await multi.exec();
+  }
+
+  // Every window key a batch with these entry-date groups writes to.
+  private writtenKeys(groups: Array<[Date, unknown]>): Set<string> {
+    return new Set(
+      groups.flatMap(([groupDate]) =>
+        this.config.timeframes.flatMap((timeframe) =>
+          this.config.categories.flatMap((category) =>
+            this.resolveIngestKeys(timeframe, category, groupDate),
+          ),
+        ),
+      ),
+    );
+  }
+
+  async timeframesAffectedBy(
+    entries: ReadonlyArray<LeaderboardIngestEntry<TCategory>>,
+    date: Date = new Date(),
+  ): Promise<TTimeframe[]> {
+    const written = this.writtenKeys(groupEntriesByDate(entries, date));
+    return this.config.timeframes.filter((timeframe) =>
+      this.config.categories.some((category) =>
+        this.resolveBuildSourceKeys(timeframe, category, date).some((key) => written.has(key)),
+      ),
+    );
+  }
+
+  private queueDropIncremental(multi: ReturnType<RedisLeaderboardClient["multi"]>): void {
+    if (this.config.rebuildStrategy !== "incremental") return;
+    for (const timeframe of this.config.timeframes) {
+      multi.del(this.incrementalKey(timeframe));
+    }
+  }
+
+  // Same writes as `queueIngest`, applied by `INGEST_SCRIPT` in one round trip. The
+  // script decides max/min reach from ZADD's changed count, so no baseline read. Resolves
+  // to the `claims` already taken, in which case nothing was written.
+  private async scriptIngest(
+    groups: Array<[Date, Array<[string, LeaderboardDelta<TCategory>]>]>,
+    claims: string[],
+  ): Promise<string[]> {
+    const keys: string[] = [];
+    const slots = new Map<string, number>();
+    const slot = (key: string) => {
+      let index = slots.get(key);
+      if (index === undefined) {
+        index = keys.push(key);
+        slots.set(key, index);
+      }
+      return index;
+    };
 
+    const now = Date.now();
+    const ops: IngestScriptOp[] = [];
+    for (const [date, entries] of groups) {
+      for (const timeframe of this.config.timeframes) {
+        for (const category of this.config.categories) {
+          const strategy = this.aggregationForCategory(category);
+          const tracksReach = this.tracksReach(category);
+          const members: Array<[string, string]> = [];
+          for (const [userId, delta] of entries) {
+            const value = delta[category] ?? 0;
+            if (value !== 0) members.push([userId, String(value)]);
+          }
+
+          for (const key of this.resolveIngestKeys(timeframe, category, date)) {
+            const ttl = this.config.resolveWindowTtlSeconds?.({ timeframe, category, date, key });
+            const expiry = this.windowExpiry(ttl, now);
+            ops.push({
+              k: slot(key),
+              g: slot(this.windowRegistryKey(category)),
+              r: tracksReach ? slot(this.reachedKey(key)) : 0,
+              a: strategy,
+              t: typeof ttl === "number" && ttl > 0 ? ttl : 0,
+              e: expiry === Infinity ? "+inf" : String(expiry),
+              at: String(date.getTime()),
+              m: members,
+            });
+          }
+        }
+      }
+    }
+    if (ops.length === 0 && claims.length === 0) return [];
+    const ttl = Math.max(1, Math.ceil(this.config.eventIdTtlSeconds ?? 86_400));
+    const taken = await this.client.eval!(INGEST_SCRIPT, {
+      keys,
+      arguments: [
+        JSON.stringify(ops),
+        String(now),
+        JSON.stringify(claims.map(slot)),
+        String(ttl),
+      ],
+    });
+    return Array.isArray(taken) ? taken.map((position) => claims[Number(position) - 1] ?? "") : [];
+  }
+
+  private queueIngest(
+    multi: ReturnType<RedisLeaderboardClient["multi"]>,
+    entries: Array<[string, LeaderboardDelta<TCategory>]>,
+    date: Date,
+    baseline: Map<string, Map<string, number | null>>,
+  ): void {
+    const now = Date.now();
     for (const timeframe of this.config.timeframes) {
       for (const category of this.config.categories) {
         const keys = this.resolveIngestKeys(timeframe, category, date);
         if (keys.length === 0) continue;
         const strategy = this.aggregationForCategory(category);
+        const tracksReach = this.tracksReach(category);
+        const registered: Array<{ value: string; score: number }> = [];
 
         for (const key of keys) {
+          const current = baseline.get(key);
+          const reached = new Set<string>();
+
           for (const [userId, delta] of entries) {
             const value = delta[category] ?? 0;
             if (value === 0) continue;
@@ -145,21 +604,43 @@ export class RedisLeaderboardStore<
             } else {
               multi.zAdd(key, [{ value: userId, score: value }], { LT: true });
             }
+
+            if (!tracksReach) continue;
+            if (current) {
+              const previous = current.get(userId) ?? null;
+              const improves =
+                previous === null || (strategy === "max" ? value > previous : value < previous);
+              if (!improves) continue;
+              current.set(userId, value);
+            }
+            reached.add(userId);
+          }
+
+          if (reached.size > 0) {
+            multi.zAdd(
+              this.reachedKey(key),
+              [...reached].map((userId) => ({ value: userId, score: date.getTime() })),
+            );
           }
 
           const ttl = this.config.resolveWindowTtlSeconds?.({
             timeframe,
             category,
             date,
+            key,
           });
           if (typeof ttl === "number" && ttl > 0) {
             multi.expire(key, ttl);
+            if (tracksReach) multi.expire(this.reachedKey(key), ttl);
           }
+          registered.push({ value: key, score: this.windowExpiry(ttl, now) });
         }
+
+        const registry = this.windowRegistryKey(category);
+        multi.zAdd(registry, registered);
+        multi.zRemRangeByScore(registry, "-inf", `(${now}`);
       }
     }
-
-    await multi.exec();
   }
 
   async buildRankingFromWindows(
@@ -167,25 +648,397 @@ export class RedisLeaderboardStore<
     date: Date = new Date(),
     ttlSeconds = 300,
   ): Promise<void> {
-    const multi = this.client.multi();
+    if (this.isRealtime(timeframe)) return;
+    const previous = await this.getBuildInfo(timeframe);
+    const builtAt = Date.now();
+    const version = createBuildVersion(builtAt);
+    const snapshotTtl = Math.max(ttlSeconds, this.config.snapshotTtlSeconds ?? 600);
+
+    const plans = await this.planIncrementalBuilds(timeframe, date);
+
+    // Staging writes only new versioned keys and incremental bases, so a failure
+    // leaves the live board intact.
+    const stage = this.client.multi();
+    const swap = this.client.multi();
+    if (plans) stage.del(this.incrementalKey(timeframe));
 
     for (const category of this.config.categories) {
       const sources = this.resolveBuildSourceKeys(timeframe, category, date);
-      const dest = this.resolveRankKey(timeframe, category);
-      if (sources.length === 0) {
-        multi.del(dest);
-        continue;
+      const live = this.resolveRankKey(timeframe, category);
+      const staged = snapshotKey(live, version);
+      const tracksReach = this.tracksReach(category);
+      const plan = plans?.get(category);
+
+      if (sources.length > 0) {
+        const built = this.builtSourcesKey(timeframe, category);
+        stage.zAdd(built, sources.map((key) => ({ value: key, score: 0 })));
+        stage.zInterStore(
+          built,
+          [
+            { key: built, weight: 0 },
+            { key: this.windowRegistryKey(category), weight: 0 },
+          ],
+          { AGGREGATE: "SUM" },
+        );
       }
 
-      multi.zUnionStore(dest, sources as [string, ...string[]], {
-        AGGREGATE: this.aggregateOption(category),
-      });
+      if (plan) {
+        this.queueBaseUpdate(stage, baseKey(live), plan, snapshotTtl);
+        stage.zUnionStore(staged, [baseKey(live), ...plan.live], { AGGREGATE: "SUM" });
+        stage.expire(staged, snapshotTtl);
+        stage.hSet(this.incrementalKey(timeframe), { [category]: JSON.stringify(plan.closed) });
+      } else if (sources.length > 0) {
+        stage.zUnionStore(staged, sources as [string, ...string[]], {
+          AGGREGATE: this.aggregateOption(category),
+        });
+        stage.expire(staged, snapshotTtl);
+
+        if (tracksReach && this.aggregationForCategory(category) === "sum") {
+          // sum totals were reached at their latest change.
+          stage.zUnionStore(
+            this.reachedKey(staged),
+            sources.map((key) => this.reachedKey(key)) as [string, ...string[]],
+            { AGGREGATE: "MAX" },
+          );
+          stage.expire(this.reachedKey(staged), snapshotTtl);
+        } else if (tracksReach) {
+          this.queueBestReach(stage, staged, sources, snapshotTtl);
+        }
+      }
+
+      if (previous) {
+        // Keep the outgoing board as the previous build's snapshot for rank movement.
+        const retained = snapshotKey(live, previous.version);
+        swap.zUnionStore(retained, [live], { AGGREGATE: "SUM" });
+        swap.expire(retained, snapshotTtl);
+        if (tracksReach) {
+          swap.zUnionStore(this.reachedKey(retained), [this.reachedKey(live)], {
+            AGGREGATE: "SUM",
+          });
+          swap.expire(this.reachedKey(retained), snapshotTtl);
+        }
+      }
+
+      // Copying a missing snapshot deletes the live key, matching an empty union.
+      swap.zUnionStore(live, [staged], { AGGREGATE: "SUM" });
       if (ttlSeconds > 0) {
-        multi.expire(dest, ttlSeconds);
+        swap.expire(live, ttlSeconds);
+      }
+      if (tracksReach) {
+        swap.zUnionStore(this.reachedKey(live), [this.reachedKey(staged)], { AGGREGATE: "SUM" });
+        if (ttlSeconds > 0) {
+          swap.expire(this.reachedKey(live), ttlSeconds);
+        }
       }
     }
 
-    await multi.exec();
+    if (plans) stage.expire(this.incrementalKey(timeframe), snapshotTtl);
+    swap.hSet(this.buildKey(timeframe), {
+      version,
+      builtAt: String(builtAt),
+      previousVersion: previous?.version ?? "",
+    });
+
+    await stage.exec();
+    await swap.exec();
+  }
+
+  /**
+   * Incremental plans for the categories that qualify, or `null` with the `full`
+   * strategy. A plan starts its base over when there is no previous state, or when the
+   * previous base or a bucket it must subtract is gone (expired, emptied or reset).
+   */
+  private async planIncrementalBuilds(
+    timeframe: TTimeframe,
+    date: Date,
+  ): Promise<Map<TCategory, IncrementalPlan> | null> {
+    if (this.config.rebuildStrategy !== "incremental") return null;
+    const previous = await this.client.hGetAll(this.incrementalKey(timeframe));
+
+    const plans = new Map<TCategory, IncrementalPlan>();
+    for (const category of this.config.categories) {
+      if (this.aggregationForCategory(category) !== "sum" || this.tracksReach(category)) continue;
+      const sources = this.resolveBuildSourceKeys(timeframe, category, date);
+      if (sources.length === 0) continue;
+
+      const current = new Set(
+        this.config.timeframes.flatMap((tf) => this.resolveIngestKeys(tf, category, date)),
+      );
+      const raw = previous[category];
+      const prior = raw ? (JSON.parse(raw) as string[]) : null;
+      let plan = planIncrementalBuild(sources, current, prior);
+      if (plan.dropped) {
+        const base = baseKey(this.resolveRankKey(timeframe, category));
+        const required = prior && prior.length > 0 ? [base, ...plan.dropped] : plan.dropped;
+        const present = await Promise.all(required.map((key) => this.client.exists(key)));
+        if (present.some((count) => count === 0)) {
+          plan = planIncrementalBuild(sources, current, null);
+        }
+      }
+      plans.set(category, plan);
+    }
+    return plans;
+  }
+
+  private queueBaseUpdate(
+    multi: ReturnType<RedisLeaderboardClient["multi"]>,
+    base: string,
+    plan: IncrementalPlan,
+    ttlSeconds: number,
+  ): void {
+    if (plan.dropped === null) {
+      if (plan.closed.length > 0) {
+        multi.zUnionStore(base, plan.closed as [string, ...string[]], { AGGREGATE: "SUM" });
+      } else {
+        multi.del(base);
+      }
+    } else if (plan.closed.length === 0) {
+      multi.del(base);
+    } else if (plan.added.length + plan.dropped.length > 0) {
+      multi.zUnionStore(
+        base,
+        [
+          { key: base, weight: 1 },
+          ...plan.added.map((key) => ({ key, weight: 1 })),
+          ...plan.dropped.map((key) => ({ key, weight: -1 })),
+        ],
+        { AGGREGATE: "SUM" },
+      );
+      // Members whose dropped buckets held all they had would linger at 0. Keeping exactly
+      // the closed buckets' members drops them but keeps totals that really net to zero.
+      const members = `${base}:members`;
+      multi.zUnionStore(
+        members,
+        plan.closed.map((key) => ({ key, weight: 0 })) as [WeightedKey, ...WeightedKey[]],
+        { AGGREGATE: "SUM" },
+      );
+      multi.zInterStore(
+        base,
+        [
+          { key: base, weight: 1 },
+          { key: members, weight: 0 },
+        ],
+        { AGGREGATE: "SUM" },
+      );
+      multi.del(members);
+    }
+    multi.expire(base, ttlSeconds);
+  }
+
+  // A max/min best was reached when the earliest bucket holding it got there, so each bucket
+  // keeps only the reach times of members whose bucket score equals the staged one.
+  private queueBestReach(
+    multi: ReturnType<RedisLeaderboardClient["multi"]>,
+    staged: string,
+    sources: string[],
+    ttlSeconds: number,
+  ): void {
+    const matches = sources.map((key, index) => {
+      const match = `${this.reachedKey(staged)}:${index}`;
+      multi.zInterStore(
+        match,
+        [
+          { key: staged, weight: 1 },
+          { key, weight: -1 },
+        ],
+        { AGGREGATE: "SUM" },
+      );
+      multi.zRemRangeByScore(match, "-inf", "(0");
+      multi.zRemRangeByScore(match, "(0", "+inf");
+      multi.zInterStore(
+        match,
+        [
+          { key: match, weight: 0 },
+          { key: this.reachedKey(key), weight: 1 },
+        ],
+        { AGGREGATE: "SUM" },
+      );
+      return match;
+    });
+    multi.zUnionStore(this.reachedKey(staged), matches as [string, ...string[]], {
+      AGGREGATE: "MIN",
+    });
+    multi.expire(this.reachedKey(staged), ttlSeconds);
+    for (const match of matches) multi.del(match);
+  }
+
+  async getBuildInfo(timeframe: TTimeframe): Promise<LeaderboardBuildInfo | null> {
+    const raw = await this.client.hGetAll(this.buildKey(timeframe));
+    if (!raw.version) return null;
+    return {
+      version: raw.version,
+      builtAt: Number(raw.builtAt),
+      previousVersion: raw.previousVersion || null,
+    };
+  }
+
+  /** The live build a read is pinned against, reading the build hash only when not given. */
+  private async buildFor(
+    timeframe: TTimeframe,
+    options?: LeaderboardSnapshotOptions,
+  ): Promise<LeaderboardBuildInfo | null> {
+    return options?.build === undefined ? this.getBuildInfo(timeframe) : options.build;
+  }
+
+  /**
+   * Maps categories to the keys holding `options.version`. The live build reads the live
+   * keys, so removals and resets since the swap are visible to pinned reads.
+   */
+  private async versionedRankKeys(
+    timeframe: TTimeframe,
+    options?: LeaderboardSnapshotOptions,
+  ): Promise<(category: TCategory) => string> {
+    const version = options?.version;
+    const current = version ? await this.buildFor(timeframe, options) : null;
+    return (category) => {
+      const live = this.resolveRankKey(timeframe, category);
+      return !version || current?.version === version ? live : snapshotKey(live, version);
+    };
+  }
+
+  private async rankSource(
+    timeframe: TTimeframe,
+    category: TCategory,
+    options?: LeaderboardSnapshotOptions,
+  ): Promise<RankSource<TCategory>> {
+    const keyFor = await this.versionedRankKeys(timeframe, options);
+    const key = keyFor(category);
+    const tieBreaker = this.tieBreakerFor(category);
+    if (!tieBreaker) return { key };
+
+    const tieBreakKey =
+      tieBreaker.type === "firstToReach"
+        ? this.reachedKey(key)
+        : keyFor(tieBreaker.category);
+    return { key, tieBreaker, tieBreakKey };
+  }
+
+  private betterThan(score: number, descending: boolean): [string, string] {
+    return descending ? [`(${score}`, "+inf"] : ["-inf", `(${score}`];
+  }
+
+  private async tieBreakValues(
+    source: RankSource<TCategory>,
+    userIds: string[],
+  ): Promise<Array<number | undefined>> {
+    const { tieBreaker, tieBreakKey } = source;
+    if (!tieBreaker || !tieBreakKey || userIds.length === 0) {
+      return userIds.map(() => undefined);
+    }
+
+    const raw = await this.client.zmScore(tieBreakKey, userIds);
+    return raw.map((value) => tieBreakValue(tieBreaker, value));
+  }
+
+  private async withTieBreaks(
+    source: RankSource<TCategory>,
+    rows: Array<{ value: string; score: number }>,
+    descending: boolean,
+  ): Promise<Array<{ userId: string; score: number; tieBreak?: number }>> {
+    const tieBreaks = await this.tieBreakValues(
+      source,
+      rows.map((row) => row.value),
+    );
+    return rows
+      .map((row, idx) => ({ userId: row.value, score: row.score, tieBreak: tieBreaks[idx] }))
+      .sort((a, b) => compareRankedRows(a, b, descending));
+  }
+
+  private async firstRank(
+    source: RankSource<TCategory>,
+    score: number,
+    offset: number,
+    descending: boolean,
+    strategy: RankStrategy,
+  ): Promise<number> {
+    if (strategy === "ordinal") return offset + 1;
+
+    const [min, max] = this.betterThan(score, descending);
+    if (strategy === "competition") {
+      return (await this.client.zCount(source.key, min, max)) + 1;
+    }
+
+    // Dense ranks need every distinct score ahead of this one, so this read is O(rank).
+    const ahead = await this.client.zRangeWithScores(source.key, min, max, { BY: "SCORE" });
+    if (!source.tieBreaker) {
+      return new Set(ahead.map((row) => row.score)).size + 1;
+    }
+    const rows = await this.withTieBreaks(source, ahead, descending);
+    return countDistinctRanks(rows) + 1;
+  }
+
+  /**
+   * Ranked rows for ordinal positions `start..stop`. Tie-breakers only reorder
+   * members sharing a score, so the score groups cut by the range are read in
+   * full, reordered, and sliced back down.
+   */
+  private async rankedWindow(
+    source: RankSource<TCategory>,
+    start: number,
+    stop: number,
+    descending: boolean,
+    options?: LeaderboardRankOptions,
+  ): Promise<RankedUser[]> {
+    const { key } = source;
+    const strategy = options?.rankStrategy ?? "ordinal";
+    const rows = await this.client.zRangeWithScores(key, start, stop, { REV: descending });
+    const first = rows[0];
+    const last = rows[rows.length - 1];
+    if (!first || !last) return [];
+
+    if (!source.tieBreaker) {
+      const firstRank = await this.firstRank(source, first.score, start, descending, strategy);
+      return assignRanks(
+        rows.map((row) => ({ userId: row.value, score: row.score })),
+        strategy,
+        start,
+        firstRank,
+      );
+    }
+
+    const [firstGroup, lastGroup, groupStart] = await Promise.all([
+      this.client.zRangeWithScores(key, first.score, first.score, { BY: "SCORE" }),
+      last.score === first.score
+        ? Promise.resolve([])
+        : this.client.zRangeWithScores(key, last.score, last.score, { BY: "SCORE" }),
+      this.client.zCount(key, ...this.betterThan(first.score, descending)),
+    ]);
+    const middle = rows.filter((row) => row.score !== first.score && row.score !== last.score);
+    const window = await this.withTieBreaks(
+      source,
+      [...firstGroup, ...middle, ...lastGroup],
+      descending,
+    );
+
+    const firstRank =
+      strategy === "dense"
+        ? await this.firstRank(source, first.score, groupStart, descending, strategy)
+        : groupStart + 1;
+    return assignRanks(window, strategy, groupStart, firstRank).slice(
+      start - groupStart,
+      stop - groupStart + 1,
+    );
+  }
+
+  private async positionOf(
+    source: RankSource<TCategory>,
+    userId: string,
+    descending: boolean,
+  ): Promise<number | null> {
+    const { key } = source;
+    if (!source.tieBreaker) {
+      return descending ? this.client.zRevRank(key, userId) : this.client.zRank(key, userId);
+    }
+
+    const score = await this.client.zScore(key, userId);
+    if (score === null) return null;
+
+    const [group, groupStart] = await Promise.all([
+      this.client.zRangeWithScores(key, score, score, { BY: "SCORE" }),
+      this.client.zCount(key, ...this.betterThan(score, descending)),
+    ]);
+    const ordered = await this.withTieBreaks(source, group, descending);
+    return groupStart + ordered.findIndex((row) => row.userId === userId);
   }
 
   async getTopRankedUsers(
@@ -193,20 +1046,14 @@ export class RedisLeaderboardStore<
     category: TCategory,
     limit: number,
     descending: boolean,
+    options?: LeaderboardReadOptions,
   ): Promise<RankedUser[] | null> {
-    const key = this.resolveRankKey(timeframe, category);
-    const ttl = await this.client.ttl(key);
+    const source = await this.rankSource(timeframe, category, options);
+    const ttl = await this.client.ttl(source.key);
     if (ttl === -2) return null;
 
-    const rows = await this.client.zRangeWithScores(key, 0, limit - 1, {
-      REV: descending,
-    });
-
-    return rows.map((row, idx) => ({
-      userId: row.value,
-      score: row.score,
-      rank: idx + 1,
-    }));
+    const offset = options?.offset ?? 0;
+    return this.rankedWindow(source, offset, offset + limit - 1, descending, options);
   }
 
   async getUserRank(
@@ -214,32 +1061,317 @@ export class RedisLeaderboardStore<
     timeframe: TTimeframe,
     category: TCategory,
     descending: boolean,
+    options?: LeaderboardRankOptions,
   ): Promise<RankedUser | null> {
-    const key = this.resolveRankKey(timeframe, category);
+    const source = await this.rankSource(timeframe, category, options);
+    const position = await this.positionOf(source, userId, descending);
+    if (position === null) return null;
 
-    const [rank, score] = await Promise.all([
-      descending ? this.client.zRevRank(key, userId) : this.client.zRank(key, userId),
-      this.client.zScore(key, userId),
-    ]);
+    const [ranked] = await this.rankedWindow(source, position, position, descending, options);
+    return ranked ?? null;
+  }
 
-    if (rank === null) return null;
+  async getUsersAround(
+    userId: string,
+    timeframe: TTimeframe,
+    category: TCategory,
+    above: number,
+    below: number,
+    descending: boolean,
+    options?: LeaderboardRankOptions,
+  ): Promise<RankedUser[] | null> {
+    const source = await this.rankSource(timeframe, category, options);
+    const position = await this.positionOf(source, userId, descending);
+    if (position === null) return null;
 
-    return {
-      userId,
-      score: score ?? 0,
-      rank: rank + 1,
-    };
+    return this.rankedWindow(
+      source,
+      Math.max(0, position - above),
+      position + below,
+      descending,
+      options,
+    );
+  }
+
+  async getPreviousRanks(
+    userIds: string[],
+    timeframe: TTimeframe,
+    category: TCategory,
+    descending: boolean,
+    options?: LeaderboardRankOptions,
+  ): Promise<Map<string, number>> {
+    const out = new Map<string, number>();
+    if (userIds.length === 0 || this.isRealtime(timeframe)) return out;
+    const current = await this.buildFor(timeframe, options);
+    if (!current?.previousVersion) return out;
+    if (options?.version && options.version !== current.version) return out;
+
+    const source = await this.rankSource(timeframe, category, {
+      version: current.previousVersion,
+      build: current,
+    });
+    return this.ranksOf(source, [...new Set(userIds)], descending, options);
+  }
+
+  /**
+   * Ranks of `userIds` on `source` in a fixed number of round trips: one pipeline of
+   * positions for plain ordinal ranks, otherwise the users' scores, then one pipeline
+   * over their distinct scores, then one read of any tie-break values needed.
+   */
+  private async ranksOf(
+    source: RankSource<TCategory>,
+    userIds: string[],
+    descending: boolean,
+    options?: LeaderboardRankOptions,
+  ): Promise<Map<string, number>> {
+    const { key, tieBreaker } = source;
+    const strategy = options?.rankStrategy ?? "ordinal";
+    const out = new Map<string, number>();
+
+    if (!tieBreaker && strategy === "ordinal") {
+      const multi = this.client.multi();
+      for (const userId of userIds) {
+        if (descending) multi.zRevRank(key, userId);
+        else multi.zRank(key, userId);
+      }
+      const positions = (await multi.execAsPipeline()) as Array<number | null>;
+      userIds.forEach((userId, idx) => {
+        const position = positions[idx];
+        if (typeof position === "number") out.set(userId, position + 1);
+      });
+      return out;
+    }
+
+    const scores = await this.client.zmScore(key, userIds);
+    const byScore = new Map<number, string[]>();
+    userIds.forEach((userId, idx) => {
+      const score = scores[idx];
+      if (score === null || score === undefined) return;
+      byScore.set(score, [...(byScore.get(score) ?? []), userId]);
+    });
+    if (byScore.size === 0) return out;
+
+    // Per distinct score: members ahead, the score group when tie-breaks reorder it,
+    // and every row ahead for dense ranks (O(rank), as in `firstRank`).
+    const distinct = [...byScore.keys()];
+    const multi = this.client.multi();
+    for (const score of distinct) {
+      const [min, max] = this.betterThan(score, descending);
+      multi.zCount(key, min, max);
+      if (tieBreaker) multi.zRangeWithScores(key, score, score, { BY: "SCORE" });
+      if (strategy === "dense") multi.zRangeWithScores(key, min, max, { BY: "SCORE" });
+    }
+    const raw = (await multi.execAsPipeline()) as unknown[];
+    const perScore = 1 + (tieBreaker ? 1 : 0) + (strategy === "dense" ? 1 : 0);
+    const reads = distinct.map((score, idx) => {
+      const at = idx * perScore;
+      return {
+        score,
+        groupStart: raw[at] as number,
+        group: tieBreaker ? (raw[at + 1] as SortedSetRow[]) : [],
+        ahead: strategy === "dense" ? (raw[at + perScore - 1] as SortedSetRow[]) : [],
+      };
+    });
+
+    const tieBreaks = new Map<string, number | undefined>();
+    if (tieBreaker) {
+      const members = [
+        ...new Set(reads.flatMap(({ group, ahead }) => [...group, ...ahead].map((r) => r.value))),
+      ];
+      const values = await this.tieBreakValues(source, members);
+      members.forEach((member, idx) => tieBreaks.set(member, values[idx]));
+    }
+    const scored = (rows: SortedSetRow[]) =>
+      rows
+        .map((row) => ({ userId: row.value, score: row.score, tieBreak: tieBreaks.get(row.value) }))
+        .sort((a, b) => compareRankedRows(a, b, descending));
+
+    for (const { score, groupStart, group, ahead } of reads) {
+      const firstRank =
+        strategy === "dense" ? countDistinctRanks(scored(ahead)) + 1 : groupStart + 1;
+      const wanted = byScore.get(score) ?? [];
+      if (!tieBreaker) {
+        for (const userId of wanted) out.set(userId, firstRank);
+        continue;
+      }
+      for (const ranked of assignRanks(scored(group), strategy, groupStart, firstRank)) {
+        if (wanted.includes(ranked.userId)) out.set(ranked.userId, ranked.rank);
+      }
+    }
+    return out;
+  }
+
+  async getUserHistory(
+    userId: string,
+    category: TCategory,
+    timeframe: TTimeframe,
+    date: Date = new Date(),
+  ): Promise<LeaderboardHistoryPoint[]> {
+    const starts = this.config.resolveBucketStarts?.({ timeframe, category, date });
+    const buckets = this.resolveBuildSourceKeys(timeframe, category, date).flatMap((key) => {
+      const start = starts?.get(key);
+      return start ? [{ key, start: start.getTime() }] : [];
+    });
+    const scores = await Promise.all(buckets.map(({ key }) => this.client.zScore(key, userId)));
+    return buckets
+      .map(({ start }, idx): LeaderboardHistoryPoint => [start, scores[idx] ?? 0])
+      .sort(([a], [b]) => a - b);
+  }
+
+  async countRanked(
+    timeframe: TTimeframe,
+    category: TCategory,
+    options?: LeaderboardSnapshotOptions,
+  ): Promise<number> {
+    const keyFor = await this.versionedRankKeys(timeframe, options);
+    return this.client.zCard(keyFor(category));
+  }
+
+  async hasRanking(timeframe: TTimeframe, category: TCategory): Promise<boolean> {
+    // Realtime boards have nothing to build, so read-through never needs to.
+    if (this.isRealtime(timeframe)) return true;
+    return (await this.client.exists(this.resolveRankKey(timeframe, category))) > 0;
+  }
+
+  async acquireLock(name: string, ttlSeconds: number): Promise<string | null> {
+    const token = `${Date.now()}:${Math.random().toString(36).slice(2)}`;
+    const reply = await this.client.set(this.lockKey(name), token, {
+      NX: true,
+      EX: Math.max(1, Math.ceil(ttlSeconds)),
+    });
+    return reply === null ? null : token;
+  }
+
+  async releaseLock(name: string, token: string): Promise<void> {
+    // Only the holder may release; an expired lock may already belong to someone else.
+    const key = this.lockKey(name);
+    if (this.client.eval) {
+      await this.client.eval(RELEASE_LOCK_SCRIPT, { keys: [key], arguments: [token] });
+      return;
+    }
+    // Without scripting the check and the delete are two calls, so a lock that expires
+    // and is taken over in between can still be deleted.
+    if ((await this.client.get(key)) === token) {
+      await this.client.del(key);
+    }
+  }
+
+  // Buckets are shared between timeframes; clearing one that a timeframe outside `scope`
+  // reads would change that board too, so scoped removals refuse instead.
+  private async assertUnshared(
+    operation: string,
+    category: TCategory,
+    scope: readonly TTimeframe[],
+    keys: string[],
+    date: Date,
+  ): Promise<void> {
+    const touched = new Set(keys);
+    const others = this.config.timeframes.filter((timeframe) => !scope.includes(timeframe));
+    const built = await Promise.all(
+      others.map((timeframe) =>
+        this.client.zRangeWithScores(this.builtSourcesKey(timeframe, category), 0, -1),
+      ),
+    );
+    const sharing = others.filter((timeframe, idx) =>
+      [
+        this.resolveRankKey(timeframe, category),
+        ...this.resolveBuildSourceKeys(timeframe, category, date),
+        ...(built[idx] ?? []).map((row) => row.value),
+      ].some((key) => touched.has(key)),
+    );
+    if (sharing.length > 0) {
+      throw new LeaderboardConfigError(
+        `${operation} on ${scope.join(", ")} would clear ${category} buckets that ` +
+          `${sharing.join(", ")} also read`,
+      );
+    }
+  }
+
+  async removeUser(
+    userId: string,
+    options?: LeaderboardRemoveUserOptions<TCategory, TTimeframe>,
+  ): Promise<void> {
+    const categories = options?.categories ?? this.config.categories;
+    const timeframes = options?.timeframes ?? this.config.timeframes;
+    const date = new Date();
+
+    const windowKeys = await Promise.all(
+      categories.map(async (category) => {
+        const registered = await this.client.zRangeWithScores(
+          this.windowRegistryKey(category),
+          date.getTime(),
+          "+inf",
+          { BY: "SCORE" },
+        );
+        if (!options?.timeframes) return registered.map((row) => row.value);
+
+        // Registered keys the timeframes were built from, plus what they build from now.
+        const built = await Promise.all(
+          timeframes.map((timeframe) =>
+            this.client.zRangeWithScores(this.builtSourcesKey(timeframe, category), 0, -1),
+          ),
+        );
+        const live = new Set(registered.map((row) => row.value));
+        return [
+          ...built.flat().flatMap((row) => (live.has(row.value) ? [row.value] : [])),
+          ...timeframes.flatMap((timeframe) =>
+            this.resolveBuildSourceKeys(timeframe, category, date),
+          ),
+        ];
+      }),
+    );
+
+    if (options?.timeframes) {
+      for (const [idx, category] of categories.entries()) {
+        await this.assertUnshared("removeUser", category, timeframes, windowKeys[idx] ?? [], date);
+      }
+    }
+
+    const multi = this.client.multi();
+    categories.forEach((category, idx) => {
+      const keys = new Set([
+        ...(windowKeys[idx] ?? []),
+        ...timeframes.map((timeframe) => this.resolveRankKey(timeframe, category)),
+      ]);
+      for (const key of keys) {
+        multi.zRem(key, userId);
+        if (this.tracksReach(category)) multi.zRem(this.reachedKey(key), userId);
+      }
+    });
+    this.queueDropIncremental(multi);
+
+    await multi.exec();
+  }
+
+  async resetBoard(
+    category: TCategory,
+    timeframe: TTimeframe,
+    date: Date = new Date(),
+  ): Promise<void> {
+    const sources = this.resolveBuildSourceKeys(timeframe, category, date);
+    await this.assertUnshared("resetBoard", category, [timeframe], sources, date);
+    const keys = [this.resolveRankKey(timeframe, category), ...sources];
+
+    const multi = this.client.multi();
+    for (const key of keys) {
+      multi.del(key);
+      if (this.tracksReach(category)) multi.del(this.reachedKey(key));
+    }
+    this.queueDropIncremental(multi);
+    await multi.exec();
   }
 
   async getScoresBatch(
     timeframe: TTimeframe,
     userIds: string[],
+    options?: LeaderboardSnapshotOptions,
   ): Promise<Map<string, LeaderboardScores<TCategory>>> {
     if (userIds.length === 0) return new Map();
 
+    const keyFor = await this.versionedRankKeys(timeframe, options);
     const multi = this.client.multi();
     for (const category of this.config.categories) {
-      multi.zmScore(this.resolveRankKey(timeframe, category), userIds);
+      multi.zmScore(keyFor(category), userIds);
     }
 
     const raw = (await multi.execAsPipeline()) as Array<Array<number | null>>;
@@ -0,0 +1,201 @@
+import type { RedisStoreConfig } from "./adapters/redis.store";
+import type { RollingUnit, TimeframeSpec } from "./declarative";
+import { fromWallClock, toWallClock } from "./timezone";
+
+export type WindowToken = "min" | "h" | "d" | "w" | "m" | "all";
+/** A bucket series written on ingest; `unit: null` is the all-time bucket. */
+export type WindowBucket = { unit: RollingUnit | null; timezone?: string };
+
+export function tokenForUnit(unit: RollingUnit): WindowToken {
+  if (unit === "minute") return "min";
+  if (unit === "hour") return "h";
+  if (unit === "day") return "d";
+  if (unit === "week") return "w";
+  return "m";
+}
+
+function pad2(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function snapUtc(date: Date, unit: RollingUnit): Date {
+  const out = new Date(date);
+  if (unit === "minute") {
+    out.setUTCSeconds(0, 0);
+    return out;
+  }
+  if (unit === "hour") {
+    out.setUTCMinutes(0, 0, 0);
+    return out;
+  }
+  if (unit === "day") {
+    out.setUTCHours(0, 0, 0, 0);
+    return out;
+  }
+  if (unit === "week") {
+    // ISO weeks start on Monday.
+    out.setUTCHours(0, 0, 0, 0);
+    out.setUTCDate(out.getUTCDate() - ((out.getUTCDay() + 6) % 7));
+    return out;
+  }
+  out.setUTCHours(0, 0, 0, 0);
+  out.setUTCDate(1);
+  return out;
+}
+
+function addUtc(date: Date, unit: RollingUnit, delta: number): Date {
+  const out = new Date(date);
+  if (unit === "minute") {
+    out.setUTCMinutes(out.getUTCMinutes() + delta);
+    return out;
+  }
+  if (unit === "hour") {
+    out.setUTCHours(out.getUTCHours() + delta);
+    return out;
+  }
+  if (unit === "day") {
+    out.setUTCDate(out.getUTCDate() + delta);
+    return out;
+  }
+  if (unit === "week") {
+    out.setUTCDate(out.getUTCDate() + delta * 7);
+    return out;
+  }
+  out.setUTCMonth(out.getUTCMonth() + delta);
+  return out;
+}
+
+/** ISO 8601 week, e.g. `2026-W01`; the year is the one holding that week's Thursday. */
+function formatIsoWeek(date: Date): string {
+  const thursday = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+  thursday.setUTCDate(thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7));
+  const year = thursday.getUTCFullYear();
+  const week = 1 + Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / (7 * 86_400_000));
+  return `${year}-W${pad2(week)}`;
+}
+
+export function formatWindowTs(date: Date, token: Exclude<WindowToken, "all">): string {
+  const yyyy = date.getUTCFullYear();
+  const mm = pad2(date.getUTCMonth() + 1);
+  const dd = pad2(date.getUTCDate());
+  if (token === "min") {
+    return `${yyyy}-${mm}-${dd}:${pad2(date.getUTCHours())}:${pad2(date.getUTCMinutes())}`;
+  }
+  if (token === "h") {
+    return `${yyyy}-${mm}-${dd}:${pad2(date.getUTCHours())}`;
+  }
+  if (token === "d") {
+    return `${yyyy}-${mm}-${dd}`;
+  }
+  if (token === "w") {
+    return formatIsoWeek(date);
+  }
+  return `${yyyy}-${mm}`;
+}
+
+export function snapTo(date: Date, unit: RollingUnit, timezone?: string): Date {
+  if (!timezone) return snapUtc(date, unit);
+  const wall = toWallClock(date, timezone);
+  if (unit === "minute" || unit === "hour") {
+    // Trim the local remainder so a repeated hour snaps within its own occurrence.
+    return new Date(date.getTime() - (wall.getTime() - snapUtc(wall, unit).getTime()));
+  }
+  return fromWallClock(snapUtc(wall, unit), timezone);
+}
+
+export function shiftBy(date: Date, unit: RollingUnit, delta: number, timezone?: string): Date {
+  // Minutes and hours are absolute; longer units follow the local calendar across DST.
+  if (!timezone || unit === "minute" || unit === "hour") return addUtc(date, unit, delta);
+  return fromWallClock(addUtc(toWallClock(date, timezone), unit, delta), timezone);
+}
+
+export function rollingDates(
+  spec: Exclude<TimeframeSpec, { type: "all" }>,
+  now: Date,
+  timezone?: string,
+): Date[] {
+  const dates: Date[] = [];
+  let cursor = snapTo(now, spec.unit, timezone);
+  // A calendar period is exactly one bucket of its unit.
+  const size = spec.type === "calendar" ? 1 : Math.max(1, spec.size);
+
+  for (let idx = 0; idx < size; idx += 1) {
+    dates.push(new Date(cursor));
+    cursor = shiftBy(cursor, spec.unit, -1, timezone);
+  }
+
+  return dates;
+}
+
+/** Inputs to `windowResolvers`, shared by the schema and declarative bundles. */
+export type WindowResolverOptions<TCategory extends string, TTimeframe extends string> = {
+  timeframes: Record<TTimeframe, TimeframeSpec>;
+  /** The one timeframe ingest writes through; the others only read. */
+  ingestTimeframe: TTimeframe;
+  timezoneOf: (spec: TimeframeSpec) => string | undefined;
+  /** Bucket series written for `category` on ingest. */
+  bucketsFor: (category: TCategory) => readonly WindowBucket[];
+  bucketKey: (bucket: WindowBucket, date: Date, category: TCategory) => string;
+  retentionSeconds: Partial<Record<RollingUnit, number>>;
+  /** Whether `category` ranks over `timeframe`. Default: always. */
+  reads?: (category: TCategory, timeframe: TTimeframe) => boolean;
+};
+
+/** Window key resolvers for a Redis or memory store config. */
+export function windowResolvers<TCategory extends string, TTimeframe extends string>(
+  options: WindowResolverOptions<TCategory, TTimeframe>,
+): Pick<
+  RedisStoreConfig<TCategory, TTimeframe>,
+  | "resolveIngestKeys"
+  | "resolveBuildSourceKeys"
+  | "resolveBucketStarts"
+  | "resolveWindowTtlSeconds"
+> {
+  const { timeframes, timezoneOf, bucketsFor, bucketKey, retentionSeconds } = options;
+
+  return {
+    resolveIngestKeys: ({ timeframe, category, date }) => {
+      if (timeframe !== options.ingestTimeframe) return [];
+      return bucketsFor(category).map((bucket) => bucketKey(bucket, date, category));
+    },
+    resolveBuildSourceKeys: ({ timeframe, category, date }) => {
+      if (options.reads && !options.reads(category, timeframe)) return [];
+      const spec = timeframes[timeframe];
+      if (spec.type === "all") {
+        return [bucketKey({ unit: null }, date, category)];
+      }
+      const bucket = { unit: spec.unit, timezone: timezoneOf(spec) };
+      // A repeated local hour (DST fall-back) maps two steps onto one key.
+      return [
+        ...new Set(
+          rollingDates(spec, date, bucket.timezone).map((seriesDate) =>
+            bucketKey(bucket, seriesDate, category),
+          ),
+        ),
+      ];
+    },
+    resolveBucketStarts: ({ timeframe, category, date }) => {
+      const starts = new Map<string, Date>();
+      const spec = timeframes[timeframe];
+      if (spec.type === "all") return starts;
+      const bucket = { unit: spec.unit, timezone: timezoneOf(spec) };
+      for (const seriesDate of rollingDates(spec, date, bucket.timezone)) {
+        const key = bucketKey(bucket, seriesDate, category);
+        // Keep the first date when a repeated local hour maps two steps onto one key.
+        if (!starts.has(key)) starts.set(key, seriesDate);
+      }
+      return starts;
+    },
+    resolveWindowTtlSeconds: ({ category, date, key }) => {
+      for (const bucket of bucketsFor(category)) {
+        const ttl = bucket.unit ? retentionSeconds[bucket.unit] : undefined;
+        if (ttl !== undefined && bucketKey(bucket, date, category) === key) {
+          return ttl;
+        }
+      }
+      return null;
+    },
+  };
+}
@@ -1,4 +1,8 @@
-import { createMemoryLeaderboardStore, type RedisLeaderboardClient } from "./adapters";
+import {
+  createMemoryLeaderboardStore,
+  type RedisLeaderboardClient,
+  type RedisProfileClient,
+} from "./adapters";
 import {
   createBundleFromDeclarative,
   createRedisLeaderboardEngineFromDeclarative,
@@ -9,7 +13,15 @@ import {
   type TimeframeSpec,
 } from "./declarative";
 import { LeaderboardConfigError, createLeaderboardService, type CreateLeaderboardServiceDeps } from "./service";
-import type { LeaderboardMetadata, LeaderboardQuery, LeaderboardResponse } from "./types";
+import type {
+  LeaderboardBackfillEvent,
+  LeaderboardBackfillOptions,
+  LeaderboardIngestEntry,
+  LeaderboardIngestResult,
+  LeaderboardMetadata,
+  LeaderboardQuery,
+  LeaderboardResponse,
+} from "./types";
 
 type MetricMap = Record<string, MetricSpec>;
 type TimeframeMap = Record<string, TimeframeSpec>;
@@ -44,10 +56,15 @@ export type LeaderboardRuntime<
     delta: ScoreDelta<TMetrics>,
     date?: Date,
   ) => Promise<void>;
+  /** An entry's own `at` overrides `date`; see `LeaderboardEntryMeta`. */
   insertMany: (
-    entries: Array<[userId: string, delta: ScoreDelta<TMetrics>]>,
+    entries: Array<LeaderboardIngestEntry<MetricKey<TMetrics>>>,
     date?: Date,
-  ) => Promise<void>;
+  ) => Promise<LeaderboardIngestResult>;
+  backfill: (
+    events: Array<LeaderboardBackfillEvent<MetricKey<TMetrics>>>,
+    options?: LeaderboardBackfillOptions<TimeframeKey<TTimeframes>>,
+  ) => Promise<LeaderboardIngestResult>;
   refresh: (
     timeframes: TimeframeKey<TTimeframes>[],
     date?: Date,
@@ -72,7 +89,7 @@ export type LeaderboardBlueprint<
   createRedisEngine: <
     TMetadata extends LeaderboardMetadata = LeaderboardMetadata,
   >(
-    client: RedisLeaderboardClient,
+    client: RedisLeaderboardClient & RedisProfileClient,
     deps?: Omit<
       CreateLeaderboardServiceDeps<
         MetricKey<TMetrics>,
@@ -88,7 +105,14 @@ export type LeaderboardBlueprint<
       TMetadata
     >
   > &
-    LeaderboardRuntime<TMetrics, TTimeframes, TMetadata>;
+    LeaderboardRuntime<TMetrics, TTimeframes, TMetadata> & {
+      setUsername: (userId: string, username: string) => Promise<void>;
+      mergeMetadata: (
+        timeframe: TimeframeKey<TTimeframes>,
+        userId: string,
+        patch: Partial<TMetadata>,
+      ) => Promise<TMetadata>;
+    };
   createMemoryEngine: <
     TMetadata extends LeaderboardMetadata = LeaderboardMetadata,
   >(
@@ -174,7 +198,15 @@ export type LeaderboardSchemaBuilder<
   >;
   rolling: <TKey extends string>(
     key: TKey,
-    config: { unit: RollingUnit; size: number },
+    config: { unit: RollingUnit; size: number; timezone?: string },
+  ) => LeaderboardSchemaBuilder<
+    TMetrics,
+    TTimeframes & Record<TKey, TimeframeSpec>,
+    THasDefaults
+  >;
+  calendar: <TKey extends string>(
+    key: TKey,
+    config: { unit: RollingUnit; timezone?: string },
   ) => LeaderboardSchemaBuilder<
     TMetrics,
     TTimeframes & Record<TKey, TimeframeSpec>,
@@ -182,6 +214,7 @@ export type LeaderboardSchemaBuilder<
   >;
   allTime: <TKey extends string>(
     key: TKey,
+    config?: { realtime?: boolean },
   ) => LeaderboardSchemaBuilder<
     TMetrics,
     TTimeframes & Record<TKey, TimeframeSpec>,
@@ -216,9 +249,13 @@ function createRuntimeHelpers<
 >(
   service: {
     ingest: (
-      entries: Array<[userId: string, delta: ScoreDelta<TMetrics>]>,
+      entries: Array<LeaderboardIngestEntry<MetricKey<TMetrics>>>,
       date?: Date,
-    ) => Promise<void>;
+    ) => Promise<LeaderboardIngestResult>;
+    backfill: (
+      events: Array<LeaderboardBackfillEvent<MetricKey<TMetrics>>>,
+      options?: LeaderboardBackfillOptions<TimeframeKey<TTimeframes>>,
+    ) => Promise<LeaderboardIngestResult>;
     rebuild: (
       timeframes: TimeframeKey<TTimeframes>[],
       date?: Date,
@@ -231,9 +268,14 @@ function createRuntimeHelpers<
   },
 ): LeaderboardRuntime<TMetrics, TTimeframes, TMetadata> {
   return {
-    insert: async (userId, delta, date) => service.ingest([[userId, delta]], date),
-    update: async (userId, delta, date) => service.ingest([[userId, delta]], date),
+    insert: async (userId, delta, date) => {
+      await service.ingest([[userId, delta]], date);
+    },
+    update: async (userId, delta, date) => {
+      await service.ingest([[userId, delta]], date);
+    },
     insertMany: async (entries, date) => service.ingest(entries, date),
+    backfill: async (events, options) => service.backfill(events, options),
     refresh: async (timeframes, date, ttlSeconds) =>
       service.rebuild(timeframes, date, ttlSeconds),
     select: async (query, currentUserId) => service.getLeaderboard(query, currentUserId),
@@ -255,13 +297,17 @@ function createBlueprint<
   const createRedisEngine = <
     TMetadata extends LeaderboardMetadata = LeaderboardMetadata,
   >(
-    client: RedisLeaderboardClient,
+    client: RedisLeaderboardClient & RedisProfileClient,
     deps: Omit<CreateLeaderboardServiceDeps<Metric, Timeframe, TMetadata>, "store"> = {},
   ) => {
     const built = createRedisLeaderboardEngineFromDeclarative(client, definition, deps);
     return {
       ...built,
       ...createRuntimeHelpers<TMetrics, TTimeframes, TMetadata>(built.service),
+      setUsername: (userId: string, username: string) =>
+        built.profiles.setUsername(userId, username),
+      mergeMetadata: (timeframe: Timeframe, userId: string, patch: Partial<TMetadata>) =>
+        built.profiles.mergeMetadata(timeframe, userId, patch),
     };
   };
 
@@ -271,10 +317,7 @@ function createBlueprint<
     deps: Omit<CreateLeaderboardServiceDeps<Metric, Timeframe, TMetadata>, "store"> = {},
   ) => {
     const built = createBundleFromDeclarative(definition);
-    const store = createMemoryLeaderboardStore<Metric, Timeframe>({
-      categories: metricKeys(),
-      timeframes: timeframeKeys(),
-    });
+    const store = createMemoryLeaderboardStore<Metric, Timeframe>(built.redis);
     const service = createLeaderboardService<Metric, Timeframe, TMetadata>(built.service, {
       ...deps,
       store,
@@ -437,11 +480,25 @@ function createBuilder<
         ...state,
         timeframes: {
           ...state.timeframes,
-          [key]: { type: "rolling", unit: config.unit, size: config.size },
+          [key]: { type: "rolling", ...config },
+        } as TTimeframes & Record<typeof key, TimeframeSpec>,
+      });
+    },
+    calendar: (key, config) => {
+      assertUniqueTimeframe(key);
+      return createBuilder<
+        TMetrics,
+        TTimeframes & Record<typeof key, TimeframeSpec>,
+        THasDefaults
+      >({
+        ...state,
+        timeframes: {
+          ...state.timeframes,
+          [key]: { type: "calendar", ...config },
         } as TTimeframes & Record<typeof key, TimeframeSpec>,
       });
     },
-    allTime: (key) => {
+    allTime: (key, config) => {
       assertUniqueTimeframe(key);
       return createBuilder<
         TMetrics,
@@ -451,7 +508,7 @@ function createBuilder<
         ...state,
         timeframes: {
           ...state.timeframes,
-          [key]: { type: "all" },
+          [key]: { type: "all", ...config },
         } as TTimeframes & Record<typeof key, TimeframeSpec>,
       });
     },
@@ -0,0 +1,198 @@
+import type { MetadataPort, UsernamePort } from "./ports";
+import type { LeaderboardMetadata } from "./types";
+
+export type PortCacheOptions = {
+  /** Most lookups kept before the least recently used are evicted. Defaults to 10,000. */
+  maxEntries?: number;
+  /** How long a found value is served from the cache. Defaults to 60s. */
+  ttlMs?: number;
+  /** How long an ID the port did not return stays cached as missing. Defaults to `ttlMs`. */
+  negativeTtlMs?: number;
+  now?: () => number;
+};
+
+export type PortCacheStats = {
+  /** IDs served from the cache, including cached misses. */
+  hits: number;
+  /** Hits on IDs cached as missing. */
+  negativeHits: number;
+  /** IDs fetched from the wrapped port. */
+  misses: number;
+  /** IDs that joined a fetch already under way instead of starting their own. */
+  coalesced: number;
+  evictions: number;
+  size: number;
+};
+
+export type CachedUsernamePort = UsernamePort & {
+  stats(): PortCacheStats;
+  /** Drops cached names, e.g. after `setUsername`. */
+  invalidate(userIds: string[]): void;
+  clear(): void;
+};
+
+export type CachedMetadataPort<
+  TTimeframe extends string,
+  TMetadata extends LeaderboardMetadata,
+> = MetadataPort<TTimeframe, TMetadata> & {
+  stats(): PortCacheStats;
+  /** Drops cached metadata for `timeframe`, e.g. after `mergeMetadata`. */
+  invalidate(timeframe: TTimeframe, userIds: string[]): void;
+  clear(): void;
+};
+
+type CacheEntry<V> = { value: V | null; expiresAt: number };
+
+/**
+ * LRU + TTL cache in front of a batch lookup. Map insertion order doubles as
+ * recency order. IDs missing from a lookup are cached as `null`, and concurrent
+ * lookups of an ID share one fetch.
+ */
+class LookupCache<V> {
+  private entries = new Map<string, CacheEntry<V>>();
+  private pending = new Map<string, Promise<V | null>>();
+  private counters = { hits: 0, negativeHits: 0, misses: 0, coalesced: 0, evictions: 0 };
+  private maxEntries: number;
+  private ttlMs: number;
+  private negativeTtlMs: number;
+  private now: () => number;
+
+  constructor(options: PortCacheOptions) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? 10_000);
+    this.ttlMs = options.ttlMs ?? 60_000;
+    this.negativeTtlMs = options.negativeTtlMs ?? this.ttlMs;
+    this.now = options.now ?? Date.now;
+  }
+
+  async lookup(
+    ids: string[],
+    keyOf: (id: string) => string,
+    load: (ids: string[]) => Promise<Map<string, V>>,
+  ): Promise<Map<string, V>> {
+    const out = new Map<string, V>();
+    const waiting: Array<[string, Promise<V | null>]> = [];
+    const missing: string[] = [];
+
+    for (const id of new Set(ids)) {
+      const key = keyOf(id);
+      const entry = this.read(key);
+      if (entry) {
+        this.counters.hits += 1;
+        if (entry.value === null) this.counters.negativeHits += 1;
+        else out.set(id, entry.value);
+        continue;
+      }
+      const inFlight = this.pending.get(key);
+      if (inFlight) {
+        this.counters.coalesced += 1;
+        waiting.push([id, inFlight]);
+      } else {
+        missing.push(id);
+      }
+    }
+
+    if (missing.length > 0) {
+      this.counters.misses += missing.length;
+      const fetched = load(missing);
+      for (const id of missing) {
+        const key = keyOf(id);
+        const value = fetched.then((values) => values.get(id) ?? null);
+        this.pending.set(key, value);
+        waiting.push([id, value]);
+        value.then(
+          (resolved) => this.settle(key, value, resolved),
+          () => this.settle(key, value),
+        );
+      }
+    }
+
+    for (const [id, value] of waiting) {
+      const resolved = await value;
+      if (resolved !== null) out.set(id, resolved);
+    }
+    return out;
+  }
+
+  invalidate(keys: string[]) {
+    for (const key of keys) {
+      this.entries.delete(key);
+      // A fetch still under way must not write back what it read before the change.
+      this.pending.delete(key);
+    }
+  }
+
+  clear() {
+    this.entries.clear();
+    this.pending.clear();
+  }
+
+  stats(): PortCacheStats {
+    return { ...this.counters, size: this.entries.size };
+  }
+
+  private read(key: string): CacheEntry<V> | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    this.entries.delete(key);
+    if (entry.expiresAt <= this.now()) return null;
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  private settle(key: string, fetch: Promise<V | null>, value?: V | null) {
+    if (this.pending.get(key) !== fetch) return;
+    this.pending.delete(key);
+    // Failed fetches are not cached; the next lookup retries them.
+    if (value === undefined) return;
+
+    const ttl = value === null ? this.negativeTtlMs : this.ttlMs;
+    if (ttl <= 0) return;
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: this.now() + ttl });
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldest);
+      this.counters.evictions += 1;
+    }
+  }
+}
+
+/** Wraps a `UsernamePort` with an LRU + TTL cache and shared in-flight lookups. */
+export function createCachedUsernamePort(
+  port: UsernamePort,
+  options: PortCacheOptions = {},
+): CachedUsernamePort {
+  const cache = new LookupCache<string>(options);
+  const keyOf = (userId: string) => userId;
+
+  return {
+    getUsernames: (userIds) =>
+      cache.lookup(userIds, keyOf, (missing) => port.getUsernames(missing)),
+    stats: () => cache.stats(),
+    invalidate: (userIds) => cache.invalidate(userIds),
+    clear: () => cache.clear(),
+  };
+}
+
+/**
+ * Wraps a `MetadataPort` with an LRU + TTL cache and shared in-flight lookups.
+ * One cache covers every timeframe, so `maxEntries` bounds them together.
+ */
+export function createCachedMetadataPort<
+  TTimeframe extends string,
+  TMetadata extends LeaderboardMetadata,
+>(
+  port: MetadataPort<TTimeframe, TMetadata>,
+  options: PortCacheOptions = {},
+): CachedMetadataPort<TTimeframe, TMetadata> {
+  const cache = new LookupCache<TMetadata>(options);
+  const keyOf = (timeframe: TTimeframe) => (userId: string) => JSON.stringify([timeframe, userId]);
+
+  return {
+    getMetadata: (timeframe, userIds) =>
+      cache.lookup(userIds, keyOf(timeframe), (missing) => port.getMetadata(timeframe, missing)),
+    stats: () => cache.stats(),
+    invalidate: (timeframe, userIds) => cache.invalidate(userIds.map(keyOf(timeframe))),
+    clear: () => cache.clear(),
+  };
+}
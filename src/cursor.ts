@@ -0,0 +1,73 @@
+export type LeaderboardCursor = {
+  offset: number;
+  timeframe: string;
+  orderBy: string;
+  sort: "asc" | "desc";
+  /** Build the first page was read from, so later pages stay on that snapshot. */
+  version: string | null;
+};
+
+type CursorPayload = {
+  o: number;
+  t: string;
+  c: string;
+  s: "asc" | "desc";
+  v?: string;
+};
+
+// btoa/atob only take Latin-1, so names go through their UTF-8 bytes one char per byte.
+function toBase64Url(value: string): string {
+  const binary = Array.from(new TextEncoder().encode(value), (byte) =>
+    String.fromCharCode(byte),
+  ).join("");
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+}
+
+export function encodeCursor(cursor: LeaderboardCursor): string {
+  const payload: CursorPayload = {
+    o: cursor.offset,
+    t: cursor.timeframe,
+    c: cursor.orderBy,
+    s: cursor.sort,
+    ...(cursor.version ? { v: cursor.version } : {}),
+  };
+  return toBase64Url(JSON.stringify(payload));
+}
+
+/** Returns `null` for anything that was not produced by `encodeCursor`. */
+export function decodeCursor(value: string): LeaderboardCursor | null {
+  let payload: Partial<CursorPayload>;
+  try {
+    payload = JSON.parse(fromBase64Url(value));
+  } catch {
+    return null;
+  }
+
+  if (
+    typeof payload !== "object" ||
+    payload === null ||
+    !Number.isInteger(payload.o) ||
+    (payload.o as number) < 0 ||
+    typeof payload.t !== "string" ||
+    typeof payload.c !== "string" ||
+    (payload.s !== "asc" && payload.s !== "desc") ||
+    (payload.v !== undefined && typeof payload.v !== "string")
+  ) {
+    return null;
+  }
+
+  return {
+    offset: payload.o as number,
+    timeframe: payload.t,
+    orderBy: payload.c,
+    sort: payload.s,
+    version: payload.v ?? null,
+  };
+}
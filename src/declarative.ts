@@ -1,28 +1,71 @@
-import { createRedisLeaderboardStore, type RedisLeaderboardClient } from "./adapters";
+import {
+  createRedisLeaderboardStore,
+  createRedisProfileStore,
+  type RedisLeaderboardClient,
+  type RedisProfileClient,
+} from "./adapters";
 import type { LeaderboardAggregation, RedisStoreConfig } from "./adapters/redis.store";
 import {
   createLeaderboardService,
   type CreateLeaderboardServiceDeps,
   type CreateLeaderboardServiceConfig,
 } from "./service";
-import type { LeaderboardMetadata } from "./types";
+import {
+  formatWindowTs,
+  shiftBy,
+  snapTo,
+  tokenForUnit,
+  type WindowBucket,
+  type WindowToken,
+  windowResolvers,
+} from "./buckets";
+import { assertTimezone, toWallClock } from "./timezone";
+import type { LeaderboardMetadata, LeaderboardPeriod } from "./types";
 
-export type RollingUnit = "hour" | "day" | "month";
-type WindowToken = "h" | "d" | "m" | "all";
+export type RollingUnit = "minute" | "hour" | "day" | "week" | "month";
 
 export type MetricSpec = {
   aggregation?: LeaderboardAggregation;
 };
 
+/**
+ * `rolling` trails `now` by `size` units; `calendar` covers the current period
+ * of `unit` (e.g. this ISO week) and resets when the next one starts.
+ * `timezone` (IANA) places bucket boundaries in local time; it defaults to the
+ * definition's `timezone`, else UTC.
+ */
 export type TimeframeSpec =
-  | { type: "all" }
-  | { type: "rolling"; unit: RollingUnit; size: number };
+  /** `realtime` ranks straight from the `all` window key, so there is nothing to rebuild. */
+  | { type: "all"; realtime?: boolean }
+  | { type: "rolling"; unit: RollingUnit; size: number; timezone?: string }
+  | { type: "calendar"; unit: RollingUnit; timezone?: string };
+
+/**
+ * Window bucket TTLs. By default each rolling unit's buckets live for its
+ * longest timeframe (`unit × size`) plus one bucket of grace; `false` keeps
+ * buckets forever. The `all` bucket never expires.
+ */
+export type WindowRetention =
+  | false
+  | {
+      graceSeconds?: number;
+      ttlSeconds?: Partial<Record<RollingUnit, number>>;
+    };
 
 export type DeclarativeLeaderboard<
   TMetrics extends Record<string, MetricSpec>,
   TTimeframes extends Record<string, TimeframeSpec>,
 > = {
   prefix?: string;
+  /** IANA zone for every timeframe without its own. Default: UTC. */
+  timezone?: string;
+  retention?: WindowRetention;
+  /** How long ingested `eventId`s are remembered for deduplication. Default: 86400. */
+  eventIdTtlSeconds?: number;
+  /** How the Redis store applies ingest batches; see `RedisStoreConfig.ingestMode`. */
+  ingestMode?: "multi" | "script";
+  /** How rebuilds refresh `sum` boards; see `RedisStoreConfig.rebuildStrategy`. */
+  rebuildStrategy?: "full" | "incremental";
   metrics: TMetrics;
   timeframes: TTimeframes;
   defaults: {
@@ -53,69 +96,53 @@ export function defineDeclarativeLeaderboard<
   return definition;
 }
 
-function tokenForUnit(unit: RollingUnit): WindowToken {
-  if (unit === "hour") return "h";
-  if (unit === "day") return "d";
-  return "m";
-}
+const UNIT_SECONDS: Record<RollingUnit, number> = {
+  minute: 60,
+  hour: 3_600,
+  day: 86_400,
+  week: 7 * 86_400,
+  month: 31 * 86_400,
+};
 
-function pad2(value: number): string {
-  return String(value).padStart(2, "0");
-}
+/** Derived bucket TTL per rolling unit in use; see `WindowRetention`. */
+export function windowRetentionSeconds(
+  timeframes: readonly TimeframeSpec[],
+  retention?: WindowRetention,
+): Partial<Record<RollingUnit, number>> {
+  if (retention === false) return {};
 
-function snapUtc(date: Date, unit: RollingUnit): Date {
-  const out = new Date(date);
-  if (unit === "hour") {
-    out.setUTCMinutes(0, 0, 0);
-    return out;
-  }
-  if (unit === "day") {
-    out.setUTCHours(0, 0, 0, 0);
-    return out;
+  const spans: Partial<Record<RollingUnit, number>> = {};
+  for (const spec of timeframes) {
+    if (spec.type === "all") continue;
+    const size = spec.type === "calendar" ? 1 : Math.max(1, spec.size);
+    const span = size * UNIT_SECONDS[spec.unit];
+    spans[spec.unit] = Math.max(spans[spec.unit] ?? 0, span);
   }
-  out.setUTCHours(0, 0, 0, 0);
-  out.setUTCDate(1);
-  return out;
-}
 
-function addUtc(date: Date, unit: RollingUnit, delta: number): Date {
-  const out = new Date(date);
-  if (unit === "hour") {
-    out.setUTCHours(out.getUTCHours() + delta);
-    return out;
-  }
-  if (unit === "day") {
-    out.setUTCDate(out.getUTCDate() + delta);
-    return out;
+  const out: Partial<Record<RollingUnit, number>> = {};
+  for (const unit of Object.keys(spans) as RollingUnit[]) {
+    out[unit] =
+      retention?.ttlSeconds?.[unit] ??
+      (spans[unit] as number) + (retention?.graceSeconds ?? UNIT_SECONDS[unit]);
   }
-  out.setUTCMonth(out.getUTCMonth() + delta);
   return out;
 }
 
-function formatWindowTs(date: Date, token: Exclude<WindowToken, "all">): string {
-  const yyyy = date.getUTCFullYear();
-  const mm = pad2(date.getUTCMonth() + 1);
-  const dd = pad2(date.getUTCDate());
-  if (token === "h") {
-    return `${yyyy}-${mm}-${dd}:${pad2(date.getUTCHours())}`;
-  }
-  if (token === "d") {
-    return `${yyyy}-${mm}-${dd}`;
-  }
-  return `${yyyy}-${mm}`;
-}
-
-function rollingDates(spec: Extract<TimeframeSpec, { type: "rolling" }>, now: Date): Date[] {
-  const dates: Date[] = [];
-  let cursor = snapUtc(now, spec.unit);
-  const size = Math.max(1, spec.size);
-
-  for (let idx = 0; idx < size; idx += 1) {
-    dates.push(new Date(cursor));
-    cursor = addUtc(cursor, spec.unit, -1);
-  }
-
-  return dates;
+/**
+ * Bounds of the calendar period holding `date`, or `null` for other timeframes.
+ * `timezone` is the definition-wide default.
+ */
+export function calendarPeriod(
+  spec: TimeframeSpec,
+  date: Date,
+  timezone?: string,
+): LeaderboardPeriod | null {
+  if (spec.type !== "calendar") return null;
+  const zone = spec.timezone ?? timezone;
+  const start = snapTo(date, spec.unit, zone);
+  // A start pushed past a DST gap would carry its late hour into the next period otherwise.
+  const end = snapTo(shiftBy(start, spec.unit, 1, zone), spec.unit, zone);
+  return { start: start.getTime(), end: end.getTime() };
 }
 
 function buildBundle<
@@ -130,26 +157,41 @@ function buildBundle<
   const timeframes = Object.keys(definition.timeframes) as Timeframe[];
   const canonicalIngestTimeframe = timeframes[0];
 
-  const ingestTokens = new Set<WindowToken>();
+  const timezoneOf = (spec: TimeframeSpec) =>
+    spec.type === "all" ? undefined : (spec.timezone ?? definition.timezone);
+
+  const ingestBuckets = new Map<string, WindowBucket>();
   for (const timeframe of timeframes) {
     const spec = definition.timeframes[timeframe];
-    if (spec.type === "all") {
-      ingestTokens.add("all");
-    } else {
-      ingestTokens.add(tokenForUnit(spec.unit));
-    }
+    const timezone = timezoneOf(spec);
+    if (timezone) assertTimezone(timezone);
+    const unit = spec.type === "all" ? null : spec.unit;
+    ingestBuckets.set(`${unit}@${timezone ?? ""}`, { unit, timezone });
   }
 
+  const realtimeTimeframes = timeframes.filter((timeframe) => {
+    const spec = definition.timeframes[timeframe];
+    return spec.type === "all" && spec.realtime === true;
+  });
+
   const keys = {
-    rank: (timeframe: Timeframe, metric: Metric) =>
-      `${prefix}:ranking:${timeframe}:${metric}`,
+    /** Realtime timeframes rank straight from the `all` window key. */
+    rank: (timeframe: Timeframe, metric: Metric): string =>
+      realtimeTimeframes.includes(timeframe)
+        ? keys.window("all", new Date(0), metric)
+        : `${prefix}:ranking:${timeframe}:${metric}`,
     metadata: (timeframe: Timeframe) => `${prefix}:meta:${timeframe}`,
     names: () => `${prefix}:names`,
-    window: (token: WindowToken, date: Date, metric: Metric) => {
-      const ts = token === "all" ? "" : `:${formatWindowTs(date, token)}`;
-      return `${prefix}:window:${token}${ts}:${metric}`;
+    /** Buckets in a `timezone` get an `@<zone>` suffix on the token and local-time stamps. */
+    window: (token: WindowToken, date: Date, metric: Metric, timezone?: string) => {
+      const local = timezone ? toWallClock(date, timezone) : date;
+      const ts = token === "all" ? "" : `:${formatWindowTs(local, token)}`;
+      const zone = timezone && token !== "all" ? `@${timezone}` : "";
+      return `${prefix}:window:${token}${zone}${ts}:${metric}`;
     },
   };
+  const bucketKey = (bucket: WindowBucket, date: Date, metric: Metric) =>
+    keys.window(bucket.unit ? tokenForUnit(bucket.unit) : "all", date, metric, bucket.timezone);
 
   const categoryAggregation = Object.fromEntries(
     metrics.map((metric) => [
@@ -158,26 +200,29 @@ function buildBundle<
     ]),
   ) as Partial<Record<Metric, LeaderboardAggregation>>;
 
+  const retentionSeconds = windowRetentionSeconds(
+    Object.values(definition.timeframes),
+    definition.retention,
+  );
+
   const redis: RedisStoreConfig<Metric, Timeframe> = {
     prefix,
     categories: metrics,
     timeframes,
     categoryAggregation,
+    eventIdTtlSeconds: definition.eventIdTtlSeconds,
+    ingestMode: definition.ingestMode,
+    rebuildStrategy: definition.rebuildStrategy,
     resolveRankKey: ({ timeframe, category }) => keys.rank(timeframe, category),
-    resolveIngestKeys: ({ timeframe, category, date }) => {
-      if (timeframe !== canonicalIngestTimeframe) return [];
-      return [...ingestTokens].map((token) => keys.window(token, date, category));
-    },
-    resolveBuildSourceKeys: ({ timeframe, category, date }) => {
-      const spec = definition.timeframes[timeframe];
-      if (spec.type === "all") {
-        return [keys.window("all", date, category)];
-      }
-      const token = tokenForUnit(spec.unit);
-      return rollingDates(spec, date).map((seriesDate) =>
-        keys.window(token, seriesDate, category),
-      );
-    },
+    realtimeTimeframes,
+    ...windowResolvers({
+      timeframes: definition.timeframes,
+      ingestTimeframe: canonicalIngestTimeframe,
+      timezoneOf,
+      bucketsFor: () => [...ingestBuckets.values()],
+      bucketKey,
+      retentionSeconds,
+    }),
   };
 
   const service: CreateLeaderboardServiceConfig<Metric, Timeframe> = {
@@ -188,6 +233,9 @@ function buildBundle<
     defaultSort: definition.defaults.sort,
     defaultLimit: definition.defaults.limit,
     maxLimit: definition.defaults.maxLimit,
+    realtimeTimeframes,
+    resolvePeriod: (timeframe, date) =>
+      calendarPeriod(definition.timeframes[timeframe], date, definition.timezone),
   };
 
   return { redis, service, keys };
@@ -205,7 +253,7 @@ export function createRedisLeaderboardEngineFromDeclarative<
   TTimeframes extends Record<string, TimeframeSpec>,
   TMetadata extends LeaderboardMetadata = LeaderboardMetadata,
 >(
-  client: RedisLeaderboardClient,
+  client: RedisLeaderboardClient & RedisProfileClient,
   definition: DeclarativeLeaderboard<TMetrics, TTimeframes>,
   deps: Omit<
     CreateLeaderboardServiceDeps<
@@ -221,10 +269,13 @@ export function createRedisLeaderboardEngineFromDeclarative<
 
   const built = createBundleFromDeclarative(definition);
   const store = createRedisLeaderboardStore<Metric, Timeframe>(client, built.redis);
-  const service = createLeaderboardService<Metric, Timeframe, TMetadata>(
-    built.service,
-    { ...deps, store },
-  );
+  const profiles = createRedisProfileStore<Timeframe, TMetadata>(client, built.keys);
+  const service = createLeaderboardService<Metric, Timeframe, TMetadata>(built.service, {
+    usernames: profiles,
+    metadata: profiles,
+    ...deps,
+    store,
+  });
 
-  return { ...built, store, service };
+  return { ...built, store, profiles, service };
 }
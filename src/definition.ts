@@ -1,12 +1,46 @@
 import type { RedisStoreConfig } from "./adapters/redis.store";
 import type { LeaderboardAggregation } from "./adapters/redis.store";
-import type { CreateLeaderboardServiceConfig } from "./service";
+import { LeaderboardConfigError, type CreateLeaderboardServiceConfig } from "./service";
+import type { LeaderboardTieBreaker } from "./types";
 
 export type LeaderboardCategoryDefinition<TCategory extends string> = {
   key: TCategory;
   aggregation?: LeaderboardAggregation;
+  tieBreaker?: LeaderboardTieBreaker<TCategory>;
 };
 
+/** Each category's `tieBreaker` narrowed to the other categories of the same definition. */
+export type CheckedCategoryDefinitions<
+  TCategories extends readonly LeaderboardCategoryDefinition<string>[],
+> = {
+  readonly [K in keyof TCategories]: TCategories[K] extends { key: infer TKey extends string }
+    ? {
+        key: TKey;
+        aggregation?: LeaderboardAggregation;
+        tieBreaker?: LeaderboardTieBreaker<
+          string extends TKey ? string : Exclude<TCategories[number]["key"], TKey>
+        >;
+      }
+    : TCategories[K];
+};
+
+// The type check above misses definitions built from widened strings, so check again at runtime.
+function assertCategoryTieBreakers(
+  categories: readonly LeaderboardCategoryDefinition<string>[],
+): void {
+  const keys = categories.map((category) => category.key);
+  for (const { key, tieBreaker } of categories) {
+    if (
+      tieBreaker?.type === "category" &&
+      (tieBreaker.category === key || !keys.includes(tieBreaker.category))
+    ) {
+      throw new LeaderboardConfigError(
+        `Category "${key}" tieBreaker must reference another category`,
+      );
+    }
+  }
+}
+
 export type LeaderboardDefinition<
   TCategory extends string,
   TTimeframe extends string,
@@ -54,11 +88,15 @@ export type TimeframeKey<TDef extends LeaderboardModelDefinition<any, any>> =
 export type ScoreDeltaFromDefinition<TDef extends LeaderboardModelDefinition<any, any>> =
   Record<MetricKey<TDef>, number>;
 
+/**
+ * Throws `LeaderboardConfigError` when a `category` tie-breaker names its own or an
+ * unknown category.
+ */
 export function defineLeaderboard<
   const TCategories extends readonly LeaderboardCategoryDefinition<string>[],
   const TTimeframes extends readonly string[],
 >(definition: {
-  categories: TCategories;
+  categories: TCategories & CheckedCategoryDefinitions<TCategories>;
   timeframes: TTimeframes;
   defaultCategory: TCategories[number]["key"];
   defaultTimeframe: TTimeframes[number];
@@ -66,6 +104,7 @@ export function defineLeaderboard<
   defaultLimit?: number;
   maxLimit?: number;
 }) {
+  assertCategoryTieBreakers(definition.categories);
   return definition;
 }
 
@@ -135,7 +174,7 @@ export function createRedisConfigFromDefinition<
   const TTimeframes extends readonly string[],
 >(
   definition: {
-    categories: TCategories;
+    categories: TCategories & CheckedCategoryDefinitions<TCategories>;
     timeframes: TTimeframes;
     defaultCategory: TCategories[number]["key"];
     defaultTimeframe: TTimeframes[number];
@@ -145,20 +184,30 @@ export function createRedisConfigFromDefinition<
   },
   options: Omit<
     RedisStoreConfig<TCategories[number]["key"], TTimeframes[number]>,
-    "categories" | "timeframes" | "categoryAggregation"
+    "categories" | "timeframes" | "categoryAggregation" | "categoryTieBreakers"
   >,
 ): RedisStoreConfig<TCategories[number]["key"], TTimeframes[number]> {
+  assertCategoryTieBreakers(definition.categories);
   const categoryAggregation = Object.fromEntries(
     definition.categories
       .filter((category) => category.aggregation)
       .map((category) => [category.key, category.aggregation]),
   ) as Partial<Record<TCategories[number]["key"], LeaderboardAggregation>>;
 
+  const categoryTieBreakers = Object.fromEntries(
+    definition.categories
+      .filter((category) => category.tieBreaker)
+      .map((category) => [category.key, category.tieBreaker]),
+  ) as Partial<
+    Record<TCategories[number]["key"], LeaderboardTieBreaker<TCategories[number]["key"]>>
+  >;
+
   return {
     ...options,
     categories: definition.categories.map((category) => category.key),
     timeframes: definition.timeframes,
     categoryAggregation,
+    categoryTieBreakers,
   };
 }
 
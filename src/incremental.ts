@@ -0,0 +1,52 @@
+/** How an incremental build moves a category's base from the previous build. */
+export type IncrementalPlan = {
+  /** Closed source buckets the new base covers. */
+  closed: string[];
+  /** Source buckets ingest still writes to; unioned on top of the base. */
+  live: string[];
+  added: string[];
+  /** Buckets to subtract from the previous base; `null` rebuilds the base from `closed`. */
+  dropped: string[] | null;
+};
+
+/**
+ * Splits build `sources` into closed buckets and the `current` ones ingest writes
+ * to, then diffs the closed ones against the `previous` build's.
+ */
+export function planIncrementalBuild(
+  sources: readonly string[],
+  current: ReadonlySet<string>,
+  previous: readonly string[] | null,
+): IncrementalPlan {
+  const closed = sources.filter((key) => !current.has(key));
+  const live = sources.filter((key) => current.has(key));
+  if (!previous) return { closed, live, added: closed, dropped: null };
+
+  const before = new Set(previous);
+  const after = new Set(closed);
+  return {
+    closed,
+    live,
+    added: closed.filter((key) => !before.has(key)),
+    dropped: previous.filter((key) => !after.has(key)),
+  };
+}
+
+/** Base key an incremental build keeps next to a live rank key. */
+export function baseKey(rankKey: string): string {
+  return `${rankKey}:base`;
+}
+
+/**
+ * Whether ingest wrote to a bucket that a previous build already folded into a
+ * base, per category's closed buckets. Such a base no longer matches its buckets.
+ */
+export function touchesClosedBuckets(
+  written: ReadonlySet<string>,
+  closedByCategory: Iterable<readonly string[]>,
+): boolean {
+  for (const closed of closedByCategory) {
+    if (closed.some((key) => written.has(key))) return true;
+  }
+  return false;
+}
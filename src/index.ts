@@ -7,4 +7,6 @@ export * from "./windowed";
 export * from "./declarative";
 export * from "./builder";
 export * from "./schema";
+export * from "./scheduler";
+export * from "./cache";
 export * from "./zod";
@@ -0,0 +1,22 @@
+import type { LeaderboardDelta, LeaderboardEntryMeta, LeaderboardIngestEntry } from "./types";
+
+export function entryMeta(meta: Date | LeaderboardEntryMeta | undefined): LeaderboardEntryMeta {
+  return meta instanceof Date ? { at: meta } : (meta ?? {});
+}
+
+/** Splits a batch by entry timestamp, falling back to `date`, oldest group first. */
+export function groupEntriesByDate<TCategory extends string>(
+  entries: ReadonlyArray<LeaderboardIngestEntry<TCategory>>,
+  date: Date,
+): Array<[Date, Array<[userId: string, delta: LeaderboardDelta<TCategory>]>]> {
+  const groups = new Map<number, Array<[string, LeaderboardDelta<TCategory>]>>();
+  for (const [userId, delta, meta] of entries) {
+    const time = (entryMeta(meta).at ?? date).getTime();
+    const group = groups.get(time) ?? [];
+    group.push([userId, delta]);
+    groups.set(time, group);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([time, group]) => [new Date(time), group]);
+}
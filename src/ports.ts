@@ -1,7 +1,14 @@
 import type {
-  LeaderboardDelta,
+  LeaderboardBuildInfo,
+  LeaderboardHistoryPoint,
+  LeaderboardIngestEntry,
+  LeaderboardIngestResult,
   LeaderboardMetadata,
+  LeaderboardRankOptions,
+  LeaderboardReadOptions,
+  LeaderboardRemoveUserOptions,
   LeaderboardScores,
+  LeaderboardSnapshotOptions,
   RankedUser,
 } from "./types";
 
@@ -13,22 +20,43 @@ export type LoggerPort = {
 };
 
 export interface LeaderboardStorePort<TCategory extends string, TTimeframe extends string> {
+  /**
+   * Entries without their own timestamp are filed under `date`. Entries whose
+   * `eventId` was already ingested within the dedupe horizon are skipped.
+   */
   ingestWindows(
-    entries: Array<[userId: string, delta: LeaderboardDelta<TCategory>]>,
+    entries: Array<LeaderboardIngestEntry<TCategory>>,
     date?: Date,
-  ): Promise<void>;
+  ): Promise<LeaderboardIngestResult>;
+
+  /**
+   * Timeframes whose build sources at `date` include a bucket `entries` write to, with
+   * the same timestamp fallback as `ingestWindows`. Without it, `backfill` rebuilds
+   * every timeframe.
+   */
+  timeframesAffectedBy?(
+    entries: ReadonlyArray<LeaderboardIngestEntry<TCategory>>,
+    date?: Date,
+  ): Promise<TTimeframe[]>;
 
+  /**
+   * Builds every category of `timeframe` into a new versioned snapshot, then
+   * swaps the snapshot into the live rank keys in one atomic step.
+   */
   buildRankingFromWindows(
     timeframe: TTimeframe,
     date?: Date,
     ttlSeconds?: number,
   ): Promise<void>;
 
+  getBuildInfo(timeframe: TTimeframe): Promise<LeaderboardBuildInfo | null>;
+
   getTopRankedUsers(
     timeframe: TTimeframe,
     category: TCategory,
     limit: number,
     descending: boolean,
+    options?: LeaderboardReadOptions,
   ): Promise<RankedUser[] | null>;
 
   getUserRank(
@@ -36,11 +64,81 @@ export interface LeaderboardStorePort<TCategory extends string, TTimeframe exten
     timeframe: TTimeframe,
     category: TCategory,
     descending: boolean,
+    options?: LeaderboardRankOptions,
   ): Promise<RankedUser | null>;
 
+  getUsersAround(
+    userId: string,
+    timeframe: TTimeframe,
+    category: TCategory,
+    above: number,
+    below: number,
+    descending: boolean,
+    options?: LeaderboardRankOptions,
+  ): Promise<RankedUser[] | null>;
+
+  /**
+   * Ranks `userIds` held in the build before the live one, read with the same order
+   * and rank strategy. Users missing from that build are left out, as is everyone
+   * when there was no earlier build or `options.version` pins an older one.
+   */
+  getPreviousRanks(
+    userIds: string[],
+    timeframe: TTimeframe,
+    category: TCategory,
+    descending: boolean,
+    options?: LeaderboardRankOptions,
+  ): Promise<Map<string, number>>;
+
+  /**
+   * The user's score in each bucket `timeframe` builds from at `date`, oldest first.
+   * Buckets the user has no score in read as `0`.
+   */
+  getUserHistory(
+    userId: string,
+    category: TCategory,
+    timeframe: TTimeframe,
+    date?: Date,
+  ): Promise<LeaderboardHistoryPoint[]>;
+
+  countRanked(
+    timeframe: TTimeframe,
+    category: TCategory,
+    options?: LeaderboardSnapshotOptions,
+  ): Promise<number>;
+
+  /** Whether a rank key exists (has not expired and has members). */
+  hasRanking(timeframe: TTimeframe, category: TCategory): Promise<boolean>;
+
+  /**
+   * Optional cross-process lock used by read-through rebuilds. Resolves to a
+   * token when acquired, `null` when another holder owns the lock.
+   */
+  acquireLock?(name: string, ttlSeconds: number): Promise<string | null>;
+
+  releaseLock?(name: string, token: string): Promise<void>;
+
+  /**
+   * Removes a user from rank keys and window buckets. Without `timeframes`,
+   * every unexpired bucket written is scrubbed; with it, the rank keys of those
+   * timeframes and the unexpired buckets they have been built from are. A filtered
+   * removal throws `LeaderboardConfigError` if a timeframe outside it reads one of them.
+   */
+  removeUser(
+    userId: string,
+    options?: LeaderboardRemoveUserOptions<TCategory, TTimeframe>,
+  ): Promise<void>;
+
+  /**
+   * Clears a board's rank key and the window buckets it currently builds from. Throws
+   * `LeaderboardConfigError` when another timeframe reads one of those buckets.
+   */
+  resetBoard(category: TCategory, timeframe: TTimeframe, date?: Date): Promise<void>;
+
   getScoresBatch(
     timeframe: TTimeframe,
     userIds: string[],
+    options?: LeaderboardSnapshotOptions,
   ): Promise<Map<string, LeaderboardScores<TCategory>>>;
 }
 
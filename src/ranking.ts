@@ -0,0 +1,88 @@
+import type { LeaderboardTieBreaker, RankStrategy, RankedUser } from "./types";
+
+type ScoredRow = {
+  userId: string;
+  score: number;
+  /** Normalised tie-break value: lower wins, `undefined` loses to any number. */
+  tieBreak?: number;
+};
+
+/**
+ * Maps a raw tie-break reading (a reach timestamp or a secondary score) onto
+ * the "lower wins" scale used by `compareRankedRows`.
+ */
+export function tieBreakValue<TCategory extends string>(
+  tieBreaker: LeaderboardTieBreaker<TCategory>,
+  raw: number | null | undefined,
+): number | undefined {
+  if (raw === null || raw === undefined) return undefined;
+  if (tieBreaker.type === "firstToReach") return raw;
+  return (tieBreaker.sort ?? "desc") === "desc" ? -raw : raw;
+}
+
+function sameTieBreak(a: ScoredRow, b: ScoredRow): boolean {
+  return a.score === b.score && a.tieBreak === b.tieBreak;
+}
+
+/**
+ * Orders rows by score, then by tie-break value, then by member the way a
+ * Redis sorted set does. Descending order reverses score and member order,
+ * matching ZREVRANGE; the tie-break always prefers the lower value.
+ */
+export function compareRankedRows(a: ScoredRow, b: ScoredRow, descending: boolean): number {
+  if (a.score !== b.score) {
+    return descending ? b.score - a.score : a.score - b.score;
+  }
+  if (a.tieBreak !== b.tieBreak) {
+    if (a.tieBreak === undefined) return 1;
+    if (b.tieBreak === undefined) return -1;
+    return a.tieBreak - b.tieBreak;
+  }
+  const byMember = a.userId < b.userId ? -1 : a.userId > b.userId ? 1 : 0;
+  return descending ? -byMember : byMember;
+}
+
+/**
+ * Assigns rank numbers to rows already sorted best-first. Rows only tie when
+ * both their score and tie-break value match.
+ *
+ * `offset` is the ordinal position of `rows[0]` on the whole board and
+ * `firstRank` its rank under `strategy`; both default to the top of the board.
+ */
+export function assignRanks(
+  rows: ScoredRow[],
+  strategy: RankStrategy,
+  offset = 0,
+  firstRank = offset + 1,
+): RankedUser[] {
+  const out: RankedUser[] = [];
+  rows.forEach((row, idx) => {
+    let rank = offset + idx + 1;
+    if (idx === 0) {
+      rank = strategy === "ordinal" ? rank : firstRank;
+    } else if (strategy !== "ordinal") {
+      const previousRank = (out[idx - 1] as RankedUser).rank;
+      if (sameTieBreak(row, rows[idx - 1] as ScoredRow)) {
+        rank = previousRank;
+      } else if (strategy === "dense") {
+        rank = previousRank + 1;
+      }
+    }
+    out.push({ userId: row.userId, score: row.score, rank });
+  });
+  return out;
+}
+
+/** Number of distinct (score, tie-break) pairs, i.e. the dense rank span of `rows`. */
+export function countDistinctRanks(rows: ScoredRow[]): number {
+  return new Set(rows.map((row) => `${row.score}:${row.tieBreak ?? ""}`)).size;
+}
+
+/** `previousRank` and `rankDelta` for a row; both `null` for a new entrant. */
+export function rankMovement(
+  rank: number,
+  previousRank: number | undefined,
+): { previousRank: number | null; rankDelta: number | null } {
+  if (previousRank === undefined) return { previousRank: null, rankDelta: null };
+  return { previousRank, rankDelta: previousRank - rank };
+}
@@ -0,0 +1,80 @@
+import type { LeaderboardStorePort, LoggerPort } from "./ports";
+import type { ReadThroughOptions } from "./types";
+
+type ReadThroughStore<TCategory extends string, TTimeframe extends string> = Pick<
+  LeaderboardStorePort<TCategory, TTimeframe>,
+  "hasRanking" | "buildRankingFromWindows" | "acquireLock" | "releaseLock"
+>;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Returns `ensureRanking(timeframe, category)`, which rebuilds a timeframe when
+ * its rank key is missing, or `null` when read-through is disabled.
+ *
+ * Rebuilds are single-flight per timeframe inside the process and guarded by
+ * the store lock (when it has one) across processes. A timeframe rebuilt by
+ * this process is not rebuilt again until its rank TTL has passed, so boards
+ * that are genuinely empty do not trigger a rebuild on every read.
+ */
+export function createReadThrough<TCategory extends string, TTimeframe extends string>(
+  store: ReadThroughStore<TCategory, TTimeframe>,
+  options: boolean | ReadThroughOptions | undefined,
+  logger?: LoggerPort,
+): ((timeframe: TTimeframe, category: TCategory) => Promise<void>) | null {
+  if (!options) return null;
+
+  const settings = options === true ? {} : options;
+  const rankTtlSeconds = settings.rankTtlSeconds ?? 300;
+  const lockTtlSeconds = settings.lockTtlSeconds ?? 30;
+  const waitTimeoutMs = settings.waitTimeoutMs ?? 5_000;
+  const pollIntervalMs = settings.pollIntervalMs ?? 50;
+
+  const inFlight = new Map<TTimeframe, Promise<void>>();
+  const rebuiltAt = new Map<TTimeframe, number>();
+
+  const waitForRanking = async (timeframe: TTimeframe, category: TCategory) => {
+    const deadline = Date.now() + waitTimeoutMs;
+    while (Date.now() < deadline) {
+      await sleep(pollIntervalMs);
+      if (await store.hasRanking(timeframe, category)) return;
+    }
+    logger?.warn?.("Timed out waiting for leaderboard rebuild", { timeframe });
+  };
+
+  const rebuild = async (timeframe: TTimeframe, category: TCategory) => {
+    const lockName = `rebuild:${timeframe}`;
+    const token = store.acquireLock
+      ? await store.acquireLock(lockName, lockTtlSeconds)
+      : undefined;
+    if (token === null) {
+      await waitForRanking(timeframe, category);
+      return;
+    }
+
+    try {
+      await store.buildRankingFromWindows(timeframe, new Date(), rankTtlSeconds);
+      rebuiltAt.set(timeframe, Date.now());
+    } catch (error) {
+      logger?.error?.("Failed read-through leaderboard rebuild", { error, timeframe });
+      throw error;
+    } finally {
+      if (token) await store.releaseLock?.(lockName, token);
+    }
+  };
+
+  return async (timeframe, category) => {
+    const lastRebuild = rebuiltAt.get(timeframe);
+    if (lastRebuild !== undefined && Date.now() - lastRebuild < rankTtlSeconds * 1000) {
+      return;
+    }
+    if (await store.hasRanking(timeframe, category)) return;
+
+    let pending = inFlight.get(timeframe);
+    if (!pending) {
+      pending = rebuild(timeframe, category).finally(() => inFlight.delete(timeframe));
+      inFlight.set(timeframe, pending);
+    }
+    await pending;
+  };
+}
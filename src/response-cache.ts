@@ -0,0 +1,94 @@
+import type { ResponseCacheOptions } from "./types";
+
+export type ResponseCache<TTimeframe extends string> = {
+  /** Serves `key` from the cache, else from `load`, sharing one load between concurrent reads. */
+  read<T>(timeframe: TTimeframe, key: string, load: () => Promise<T>): Promise<T>;
+  /** Drops cached responses for `timeframes`, or all of them. */
+  invalidate(timeframes?: readonly TTimeframe[]): void;
+};
+
+type CachedResponse<TTimeframe> = { timeframe: TTimeframe; value: unknown; expiresAt: number };
+
+/**
+ * Returns an LRU + TTL cache for read responses, or `null` when caching is off.
+ * Each timeframe has a generation that `invalidate` bumps, so a load that started
+ * before a write never stores what it read.
+ */
+export function createResponseCache<TTimeframe extends string>(
+  options: boolean | ResponseCacheOptions | undefined,
+  now: () => number = Date.now,
+): ResponseCache<TTimeframe> | null {
+  if (!options) return null;
+
+  const settings = options === true ? {} : options;
+  const ttlMs = settings.ttlMs ?? 1_000;
+  const maxEntries = Math.max(1, settings.maxEntries ?? 1_000);
+
+  const entries = new Map<string, CachedResponse<TTimeframe>>();
+  const pending = new Map<string, { timeframe: TTimeframe; loading: Promise<unknown> }>();
+  const generations = new Map<TTimeframe, number>();
+  let epoch = 0;
+
+  const generationOf = (timeframe: TTimeframe) => `${epoch}:${generations.get(timeframe) ?? 0}`;
+
+  const store = (cacheKey: string, timeframe: TTimeframe, value: unknown) => {
+    entries.delete(cacheKey);
+    entries.set(cacheKey, { timeframe, value, expiresAt: now() + ttlMs });
+    for (const oldest of entries.keys()) {
+      if (entries.size <= maxEntries) break;
+      entries.delete(oldest);
+    }
+  };
+
+  return {
+    read<T>(timeframe: TTimeframe, key: string, load: () => Promise<T>): Promise<T> {
+      const cacheKey = JSON.stringify([timeframe, key]);
+      const cached = entries.get(cacheKey);
+      if (cached && cached.expiresAt > now()) {
+        // Re-insert so Map order tracks recency.
+        entries.delete(cacheKey);
+        entries.set(cacheKey, cached);
+        return Promise.resolve(cached.value as T);
+      }
+      if (cached) entries.delete(cacheKey);
+
+      const inFlight = pending.get(cacheKey);
+      if (inFlight) return inFlight.loading as Promise<T>;
+
+      const generation = generationOf(timeframe);
+      const loading = load().then(
+        (value) => {
+          if (pending.get(cacheKey)?.loading === loading) pending.delete(cacheKey);
+          if (generationOf(timeframe) === generation) store(cacheKey, timeframe, value);
+          return value;
+        },
+        (error: unknown) => {
+          if (pending.get(cacheKey)?.loading === loading) pending.delete(cacheKey);
+          throw error;
+        },
+      );
+      pending.set(cacheKey, { timeframe, loading });
+      return loading;
+    },
+
+    invalidate(timeframes) {
+      if (!timeframes) {
+        epoch += 1;
+        entries.clear();
+        pending.clear();
+        return;
+      }
+
+      const dropped = new Set(timeframes);
+      for (const timeframe of dropped) {
+        generations.set(timeframe, (generations.get(timeframe) ?? 0) + 1);
+      }
+      for (const [cacheKey, entry] of entries) {
+        if (dropped.has(entry.timeframe)) entries.delete(cacheKey);
+      }
+      for (const [cacheKey, entry] of pending) {
+        if (dropped.has(entry.timeframe)) pending.delete(cacheKey);
+      }
+    },
+  };
+}
@@ -0,0 +1,152 @@
+import type { RollingUnit, TimeframeSpec } from "./declarative";
+import type { LeaderboardStorePort, LoggerPort } from "./ports";
+import { LeaderboardConfigError } from "./service";
+
+/** Time source and timers; swap in a fake to drive the scheduler from tests. */
+export type RebuildSchedulerClock = {
+  now: () => number;
+  setTimeout: (callback: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+};
+
+export type RebuildSchedulerOptions<TTimeframe extends string> = {
+  timeframes: Readonly<Record<TTimeframe, TimeframeSpec>>;
+  rebuild: (timeframes: TTimeframe[], date: Date, ttlSeconds: number) => Promise<void>;
+  /** Store whose lock lets one instance claim each run; without one every instance rebuilds. */
+  lock?: Pick<LeaderboardStorePort<string, TTimeframe>, "acquireLock" | "releaseLock">;
+  /** Overrides the cadence derived from a timeframe's spec; must be a positive finite number. */
+  intervalMs?: Partial<Record<TTimeframe, number>>;
+  logger?: LoggerPort;
+  clock?: RebuildSchedulerClock;
+};
+
+export type RebuildScheduler<TTimeframe extends string> = {
+  /** Rebuilds every scheduled timeframe now, then on each timeframe's cadence. */
+  start(): void;
+  /** Cancels pending runs and resolves once runs already under way have finished. */
+  stop(): Promise<void>;
+  /** Cadence per scheduled timeframe; realtime timeframes are left out. */
+  intervals: Partial<Record<TTimeframe, number>>;
+};
+
+const UNIT_INTERVAL_MS: Record<RollingUnit, number> = {
+  minute: 10_000,
+  hour: 60_000,
+  day: 300_000,
+  week: 300_000,
+  month: 300_000,
+};
+
+const systemClock: RebuildSchedulerClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * How often a timeframe is rebuilt: every 10s for minute buckets, every minute for
+ * hour buckets, and every 5 minutes for longer buckets and all-time boards. Each
+ * cadence divides its bucket, so aligned runs land right after a window slides.
+ */
+function defaultIntervalMs(spec: TimeframeSpec): number | null {
+  if (spec.type === "all") return spec.realtime ? null : 300_000;
+  return UNIT_INTERVAL_MS[spec.unit];
+}
+
+/**
+ * Keeps rank keys built on a cadence derived from each `TimeframeSpec`. Runs are
+ * aligned to multiples of the cadence, so instances agree on when a run is due.
+ * A run still going when the next one is due makes that one skip. With a `lock`,
+ * the first instance to claim a run holds it for half a cadence, so the others skip
+ * it too. Rank keys get a TTL of three cadences, outlasting a couple of failed runs.
+ */
+export function createRebuildScheduler<TTimeframe extends string>(
+  options: RebuildSchedulerOptions<TTimeframe>,
+): RebuildScheduler<TTimeframe> {
+  const clock = options.clock ?? systemClock;
+  const intervals: Partial<Record<TTimeframe, number>> = {};
+  for (const timeframe of Object.keys(options.timeframes) as TTimeframe[]) {
+    const override = options.intervalMs?.[timeframe];
+    if (override !== undefined && !(Number.isFinite(override) && override > 0)) {
+      throw new LeaderboardConfigError(
+        `intervalMs for timeframe "${timeframe}" must be a positive number, got ${override}`,
+      );
+    }
+    const interval = override ?? defaultIntervalMs(options.timeframes[timeframe]);
+    if (interval !== null) intervals[timeframe] = interval;
+  }
+
+  const timers = new Map<TTimeframe, unknown>();
+  const running = new Map<TTimeframe, Promise<void>>();
+  let started = false;
+
+  const run = async (timeframe: TTimeframe, interval: number) => {
+    const lockName = `schedule:${timeframe}`;
+    const token = options.lock?.acquireLock
+      ? await options.lock.acquireLock(lockName, Math.max(1, Math.floor(interval / 2_000)))
+      : undefined;
+    if (token === null) {
+      options.logger?.debug?.("Scheduled rebuild claimed by another instance", { timeframe });
+      return;
+    }
+
+    const startedAt = clock.now();
+    try {
+      await options.rebuild([timeframe], new Date(startedAt), Math.ceil((interval * 3) / 1_000));
+      options.logger?.info?.("Scheduled leaderboard rebuild finished", {
+        timeframe,
+        durationMs: clock.now() - startedAt,
+      });
+    } catch (error) {
+      options.logger?.error?.("Scheduled leaderboard rebuild failed", { error, timeframe });
+      // Let another instance retry this run instead of waiting out the lock.
+      if (token) await options.lock?.releaseLock?.(lockName, token);
+    }
+  };
+
+  const tick = (timeframe: TTimeframe, interval: number) => {
+    if (!started) return;
+    if (running.has(timeframe)) {
+      options.logger?.warn?.("Skipped scheduled rebuild; previous run still going", { timeframe });
+    } else {
+      const pending = run(timeframe, interval)
+        .catch((error) => {
+          // Only the lock calls get here; `run` reports rebuild failures itself.
+          options.logger?.error?.("Scheduled leaderboard rebuild could not run", {
+            error,
+            timeframe,
+          });
+        })
+        .finally(() => running.delete(timeframe));
+      running.set(timeframe, pending);
+    }
+
+    const now = clock.now();
+    const next = Math.floor(now / interval) * interval + interval;
+    timers.set(
+      timeframe,
+      clock.setTimeout(() => tick(timeframe, interval), next - now),
+    );
+  };
+
+  return {
+    intervals,
+
+    start() {
+      if (started) return;
+      started = true;
+      for (const [timeframe, interval] of Object.entries(intervals) as Array<
+        [TTimeframe, number]
+      >) {
+        tick(timeframe, interval);
+      }
+    },
+
+    async stop() {
+      started = false;
+      for (const handle of timers.values()) clock.clearTimeout(handle);
+      timers.clear();
+      await Promise.all(running.values());
+    },
+  };
+}
@@ -1,23 +1,59 @@
 import {
   createMemoryLeaderboardStore,
   createRedisLeaderboardStore,
+  createRedisProfileStore,
   type RedisLeaderboardClient,
+  type RedisProfileClient,
 } from "./adapters";
 import type { LeaderboardAggregation, RedisStoreConfig } from "./adapters/redis.store";
-import type { TimeframeSpec } from "./declarative";
+import {
+  formatWindowTs,
+  tokenForUnit,
+  type WindowBucket,
+  type WindowToken,
+  windowResolvers,
+} from "./buckets";
+import { decodeCursor, encodeCursor } from "./cursor";
+import type { LoggerPort } from "./ports";
+import { rankMovement } from "./ranking";
+import { createReadThrough } from "./read-through";
+import { createResponseCache } from "./response-cache";
+import { createRebuildScheduler, type RebuildSchedulerOptions } from "./scheduler";
+import { buildTimeOf } from "./snapshot";
+import { assertTimezone, toWallClock } from "./timezone";
+import {
+  calendarPeriod,
+  windowRetentionSeconds,
+  type RollingUnit,
+  type TimeframeSpec,
+  type WindowRetention,
+} from "./declarative";
 import {
   LeaderboardConfigError,
   LeaderboardQueryError,
   createLeaderboardService,
+  rankPercentile,
   type CreateLeaderboardServiceDeps,
   type CreateLeaderboardServiceConfig,
 } from "./service";
-
-type WindowToken = "h" | "d" | "m" | "all";
-type RollingUnit = "hour" | "day" | "month";
+import type {
+  LeaderboardBuildInfo,
+  LeaderboardHistoryPoint,
+  LeaderboardMetadata,
+  LeaderboardPeriod,
+  LeaderboardRankOptions,
+  LeaderboardReadOptions,
+  LeaderboardSnapshotOptions,
+  LeaderboardTieBreaker,
+  RankStrategy,
+  ReadThroughOptions,
+  ResponseCacheOptions,
+} from "./types";
 
 export type LeaderboardBoardDefinition<TTimeframe extends string> = {
   aggregation?: LeaderboardAggregation;
+  /** Orders users with equal scores; `category` must name another board. */
+  tieBreaker?: LeaderboardTieBreaker<string>;
   timeframes: readonly TTimeframe[];
 };
 export type LbBoardDef<TTimeframe extends string> =
@@ -31,6 +67,21 @@ export type LeaderboardSchemaDefinition<
   >,
 > = {
   prefix?: string;
+  /** IANA zone for every timeframe without its own. Default: UTC. */
+  timezone?: string;
+  /** Default: `ordinal`. `dense` reads cost O(rank) on Redis; see `RankStrategy`. */
+  rankStrategy?: RankStrategy;
+  retention?: WindowRetention;
+  /** How long ingested `eventId`s are remembered for deduplication. Default: 86400. */
+  eventIdTtlSeconds?: number;
+  /** How the Redis store applies ingest batches; see `RedisStoreConfig.ingestMode`. */
+  ingestMode?: "multi" | "script";
+  /** How rebuilds refresh `sum` boards; see `RedisStoreConfig.rebuildStrategy`. */
+  rebuildStrategy?: "full" | "incremental";
+  /** Rebuild a timeframe on read when its rank key is missing. Off by default. */
+  readThrough?: boolean | ReadThroughOptions;
+  /** Cache `list` responses in process; see `CreateLeaderboardServiceConfig.responseCache`. */
+  responseCache?: boolean | ResponseCacheOptions;
   timeframes: TTimeframes;
   leaderboards: TBoards;
   defaults: {
@@ -49,6 +100,12 @@ export type LbSchemaDef<
   >,
 > = LeaderboardSchemaDefinition<TTimeframes, TBoards>;
 
+/** `schedule(...)` options; the runtime supplies the timeframes, rebuild and lock. */
+export type LbScheduleOptions<TTimeframe extends string> = Omit<
+  RebuildSchedulerOptions<TTimeframe>,
+  "timeframes" | "rebuild" | "lock"
+>;
+
 export type BoardKeyFromSchema<
   TSchema extends LeaderboardSchemaDefinition<any, any>,
 > = keyof TSchema["leaderboards"] & string;
@@ -78,14 +135,43 @@ export type LeaderboardRankedRow<
   rank: number;
   score: number;
   scores: Partial<Record<TBoard, number | null>>;
+  /** Rank in the build before this one; `null` for a new entrant. */
+  previousRank: number | null;
+  /** `previousRank - rank`: positive means the user moved up. `null` for a new entrant. */
+  rankDelta: number | null;
+  /** Set by `query.user`: share of the board at or above this rank. */
+  percentile?: number;
+};
+
+export type LeaderboardListResult<
+  TBoard extends string,
+> = {
+  rows: Array<LeaderboardRankedRow<TBoard>>;
+  total: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+  /** Snapshot the rows were read from; pass it back as `version` to pin later reads. */
+  buildVersion: string | null;
+  builtAt: number | null;
+  /** Current period of a `calendar` timeframe; `null` for rolling and all-time ones. */
+  period: LeaderboardPeriod | null;
 };
 
 export const lbTimeframe = {
-  all: (): TimeframeSpec => ({ type: "all" }),
-  rolling: (unit: RollingUnit, size: number): TimeframeSpec => ({
+  all: (options?: { realtime?: boolean }): TimeframeSpec => ({
+    type: "all",
+    ...(options?.realtime ? { realtime: true } : {}),
+  }),
+  rolling: (unit: RollingUnit, size: number, timezone?: string): TimeframeSpec => ({
     type: "rolling",
     unit,
     size,
+    ...(timezone ? { timezone } : {}),
+  }),
+  calendar: (unit: RollingUnit, timezone?: string): TimeframeSpec => ({
+    type: "calendar",
+    unit,
+    ...(timezone ? { timezone } : {}),
   }),
 } as const;
 
@@ -110,71 +196,6 @@ export const lbBoard = {
   }),
 } as const;
 
-function tokenForUnit(unit: RollingUnit): WindowToken {
-  if (unit === "hour") return "h";
-  if (unit === "day") return "d";
-  return "m";
-}
-
-function pad2(value: number): string {
-  return String(value).padStart(2, "0");
-}
-
-function snapUtc(date: Date, unit: RollingUnit): Date {
-  const out = new Date(date);
-  if (unit === "hour") {
-    out.setUTCMinutes(0, 0, 0);
-    return out;
-  }
-  if (unit === "day") {
-    out.setUTCHours(0, 0, 0, 0);
-    return out;
-  }
-  out.setUTCHours(0, 0, 0, 0);
-  out.setUTCDate(1);
-  return out;
-}
-
-function addUtc(date: Date, unit: RollingUnit, delta: number): Date {
-  const out = new Date(date);
-  if (unit === "hour") {
-    out.setUTCHours(out.getUTCHours() + delta);
-    return out;
-  }
-  if (unit === "day") {
-    out.setUTCDate(out.getUTCDate() + delta);
-    return out;
-  }
-  out.setUTCMonth(out.getUTCMonth() + delta);
-  return out;
-}
-
-function formatWindowTs(date: Date, token: Exclude<WindowToken, "all">): string {
-  const yyyy = date.getUTCFullYear();
-  const mm = pad2(date.getUTCMonth() + 1);
-  const dd = pad2(date.getUTCDate());
-  if (token === "h") {
-    return `${yyyy}-${mm}-${dd}:${pad2(date.getUTCHours())}`;
-  }
-  if (token === "d") {
-    return `${yyyy}-${mm}-${dd}`;
-  }
-  return `${yyyy}-${mm}`;
-}
-
-function rollingDates(spec: Extract<TimeframeSpec, { type: "rolling" }>, now: Date): Date[] {
-  const dates: Date[] = [];
-  let cursor = snapUtc(now, spec.unit);
-  const size = Math.max(1, spec.size);
-
-  for (let idx = 0; idx < size; idx += 1) {
-    dates.push(new Date(cursor));
-    cursor = addUtc(cursor, spec.unit, -1);
-  }
-
-  return dates;
-}
-
 export function defineLbSchema<
   const TTimeframes extends Record<string, TimeframeSpec>,
   const TBoards extends Record<
@@ -202,6 +223,23 @@ export function defineLbSchema<
       `Default leaderboard "${definition.defaults.leaderboard}" does not support timeframe "${definition.defaults.timeframe}"`,
     );
   }
+  const timezones = Object.values(definition.timeframes).map((spec) =>
+    spec.type === "all" ? undefined : spec.timezone,
+  );
+  for (const timezone of [definition.timezone, ...timezones]) {
+    if (timezone) assertTimezone(timezone);
+  }
+  for (const board of boards) {
+    const tieBreaker = definition.leaderboards[board].tieBreaker;
+    if (
+      tieBreaker?.type === "category" &&
+      (tieBreaker.category === board || !boards.includes(tieBreaker.category))
+    ) {
+      throw new LeaderboardConfigError(
+        `Leaderboard "${board}" tieBreaker must reference another leaderboard`,
+      );
+    }
+  }
   return definition;
 }
 /** @deprecated Use `defineLbSchema(...)`. */
@@ -211,6 +249,14 @@ export function lbSchema<
   const TTimeframes extends Record<string, TimeframeSpec>,
 >(config: {
   prefix?: string;
+  timezone?: string;
+  rankStrategy?: RankStrategy;
+  retention?: WindowRetention;
+  eventIdTtlSeconds?: number;
+  ingestMode?: "multi" | "script";
+  rebuildStrategy?: "full" | "incremental";
+  readThrough?: boolean | ReadThroughOptions;
+  responseCache?: boolean | ResponseCacheOptions;
   timeframes: TTimeframes;
 }) {
   return {
@@ -236,6 +282,14 @@ export function lbSchema<
       ) =>
         defineLbSchema({
           prefix: config.prefix,
+          timezone: config.timezone,
+          rankStrategy: config.rankStrategy,
+          retention: config.retention,
+          eventIdTtlSeconds: config.eventIdTtlSeconds,
+          ingestMode: config.ingestMode,
+          rebuildStrategy: config.rebuildStrategy,
+          readThrough: config.readThrough,
+          responseCache: config.responseCache,
           timeframes: config.timeframes,
           leaderboards,
           defaults,
@@ -313,30 +367,44 @@ export function bundleFromSchema<
   const boardHasTimeframe = (board: Board, timeframe: Timeframe) =>
     definition.leaderboards[board].timeframes.includes(timeframe);
 
-  const boardTokens = new Map<Board, WindowToken[]>();
+  const timezoneOf = (spec: TimeframeSpec) =>
+    spec.type === "all" ? undefined : (spec.timezone ?? definition.timezone);
+
+  const boardBuckets = new Map<Board, WindowBucket[]>();
   for (const board of boards) {
-    const tokens = new Set<WindowToken>();
+    const buckets = new Map<string, WindowBucket>();
     for (const timeframe of definition.leaderboards[board].timeframes) {
       const spec = definition.timeframes[timeframe];
-      if (spec.type === "all") {
-        tokens.add("all");
-      } else {
-        tokens.add(tokenForUnit(spec.unit));
-      }
+      const unit = spec.type === "all" ? null : spec.unit;
+      const timezone = timezoneOf(spec);
+      buckets.set(`${unit}@${timezone ?? ""}`, { unit, timezone });
     }
-    boardTokens.set(board, [...tokens]);
+    boardBuckets.set(board, [...buckets.values()]);
   }
 
+  const realtimeTimeframes = timeframes.filter((timeframe) => {
+    const spec = definition.timeframes[timeframe];
+    return spec.type === "all" && spec.realtime === true;
+  });
+
   const keys = {
-    rank: (timeframe: Timeframe, board: Board) =>
-      `${prefix}:ranking:${timeframe}:${board}`,
+    /** Realtime timeframes rank straight from the `all` window key. */
+    rank: (timeframe: Timeframe, board: Board): string =>
+      realtimeTimeframes.includes(timeframe)
+        ? keys.window("all", new Date(0), board)
+        : `${prefix}:ranking:${timeframe}:${board}`,
     metadata: (timeframe: Timeframe) => `${prefix}:meta:${timeframe}`,
     names: () => `${prefix}:names`,
-    window: (token: WindowToken, date: Date, board: Board) => {
-      const ts = token === "all" ? "" : `:${formatWindowTs(date, token)}`;
-      return `${prefix}:window:${token}${ts}:${board}`;
+    /** Buckets in a `timezone` get an `@<zone>` suffix on the token and local-time stamps. */
+    window: (token: WindowToken, date: Date, board: Board, timezone?: string) => {
+      const local = timezone ? toWallClock(date, timezone) : date;
+      const ts = token === "all" ? "" : `:${formatWindowTs(local, token)}`;
+      const zone = timezone && token !== "all" ? `@${timezone}` : "";
+      return `${prefix}:window:${token}${zone}${ts}:${board}`;
     },
   };
+  const bucketKey = (bucket: WindowBucket, date: Date, board: Board) =>
+    keys.window(bucket.unit ? tokenForUnit(bucket.unit) : "all", date, board, bucket.timezone);
 
   const categoryAggregation = Object.fromEntries(
     boards.map((board) => [
@@ -345,29 +413,37 @@ export function bundleFromSchema<
     ]),
   ) as Partial<Record<Board, LeaderboardAggregation>>;
 
+  const categoryTieBreakers = Object.fromEntries(
+    boards
+      .filter((board) => definition.leaderboards[board].tieBreaker)
+      .map((board) => [board, definition.leaderboards[board].tieBreaker]),
+  ) as Partial<Record<Board, LeaderboardTieBreaker<Board>>>;
+
+  const retentionSeconds = windowRetentionSeconds(
+    Object.values(definition.timeframes),
+    definition.retention,
+  );
+
   const redis: RedisStoreConfig<Board, Timeframe> = {
     prefix,
     categories: boards,
     timeframes,
     categoryAggregation,
+    categoryTieBreakers,
+    eventIdTtlSeconds: definition.eventIdTtlSeconds,
+    ingestMode: definition.ingestMode,
+    rebuildStrategy: definition.rebuildStrategy,
     resolveRankKey: ({ timeframe, category }) => keys.rank(timeframe, category),
-    resolveIngestKeys: ({ timeframe, category, date }) => {
-      if (timeframe !== canonicalIngestTimeframe) return [];
-      return (boardTokens.get(category) ?? []).map((token) =>
-        keys.window(token, date, category),
-      );
-    },
-    resolveBuildSourceKeys: ({ timeframe, category, date }) => {
-      if (!boardHasTimeframe(category, timeframe)) return [];
-      const spec = definition.timeframes[timeframe];
-      if (spec.type === "all") {
-        return [keys.window("all", date, category)];
-      }
-      const token = tokenForUnit(spec.unit);
-      return rollingDates(spec, date).map((seriesDate) =>
-        keys.window(token, seriesDate, category),
-      );
-    },
+    realtimeTimeframes,
+    ...windowResolvers({
+      timeframes: definition.timeframes,
+      ingestTimeframe: canonicalIngestTimeframe,
+      timezoneOf,
+      bucketsFor: (board: Board) => boardBuckets.get(board) ?? [],
+      bucketKey,
+      retentionSeconds,
+      reads: boardHasTimeframe,
+    }),
   };
 
   const service: CreateLeaderboardServiceConfig<Board, Timeframe> = {
@@ -378,6 +454,12 @@ export function bundleFromSchema<
     defaultSort: definition.defaults.sort,
     defaultLimit: definition.defaults.limit,
     maxLimit: definition.defaults.maxLimit,
+    rankStrategy: definition.rankStrategy,
+    readThrough: definition.readThrough,
+    responseCache: definition.responseCache,
+    realtimeTimeframes,
+    resolvePeriod: (timeframe, date) =>
+      calendarPeriod(definition.timeframes[timeframe], date, definition.timezone),
   };
 
   return {
@@ -413,24 +495,73 @@ export function createLbQuery<
         board: keyof TBoards & string,
         limit: number,
         descending: boolean,
+        options?: LeaderboardReadOptions,
       ) => Promise<Array<{ userId: string; score: number; rank: number }> | null>;
       getUserRank: (
         userId: string,
         timeframe: keyof TTimeframes & string,
         board: keyof TBoards & string,
         descending: boolean,
+        options?: LeaderboardRankOptions,
       ) => Promise<{ userId: string; score: number; rank: number } | null>;
+      getUsersAround: (
+        userId: string,
+        timeframe: keyof TTimeframes & string,
+        board: keyof TBoards & string,
+        above: number,
+        below: number,
+        descending: boolean,
+        options?: LeaderboardRankOptions,
+      ) => Promise<Array<{ userId: string; score: number; rank: number }> | null>;
+      getPreviousRanks: (
+        userIds: string[],
+        timeframe: keyof TTimeframes & string,
+        board: keyof TBoards & string,
+        descending: boolean,
+        options?: LeaderboardRankOptions,
+      ) => Promise<Map<string, number>>;
+      getUserHistory: (
+        userId: string,
+        board: keyof TBoards & string,
+        timeframe: keyof TTimeframes & string,
+        date?: Date,
+      ) => Promise<LeaderboardHistoryPoint[]>;
+      countRanked: (
+        timeframe: keyof TTimeframes & string,
+        board: keyof TBoards & string,
+        options?: LeaderboardSnapshotOptions,
+      ) => Promise<number>;
+      getBuildInfo: (
+        timeframe: keyof TTimeframes & string,
+      ) => Promise<LeaderboardBuildInfo | null>;
+      hasRanking: (
+        timeframe: keyof TTimeframes & string,
+        board: keyof TBoards & string,
+      ) => Promise<boolean>;
+      buildRankingFromWindows: (
+        timeframe: keyof TTimeframes & string,
+        date?: Date,
+        ttlSeconds?: number,
+      ) => Promise<void>;
+      acquireLock?: (name: string, ttlSeconds: number) => Promise<string | null>;
+      releaseLock?: (name: string, token: string) => Promise<void>;
       getScoresBatch: (
         timeframe: keyof TTimeframes & string,
         userIds: string[],
+        options?: LeaderboardSnapshotOptions,
       ) => Promise<Map<string, Record<keyof TBoards & string, number>>>;
     };
+    /** Receives read-through rebuild failures and wait timeouts. */
+    logger?: LoggerPort;
   },
 ) {
   type Board = keyof TBoards & string;
   type Timeframe = keyof TTimeframes & string;
 
   const allBoards = Object.keys(definition.leaderboards) as Board[];
+  const rankStrategy = definition.rankStrategy ?? "ordinal";
+  const ensureRanking = createReadThrough(deps.store, definition.readThrough, deps.logger);
+  const responseCache = createResponseCache<Timeframe>(definition.responseCache);
   const boardHasTimeframe = (board: Board, timeframe: Timeframe) =>
     definition.leaderboards[board].timeframes.includes(timeframe);
 
@@ -456,6 +587,64 @@ export function createLbQuery<
     return out;
   };
 
+  const resolveSnapshot = async (
+    timeframe: Timeframe,
+    board: Board,
+    requested: string | null | undefined,
+  ) => {
+    await ensureRanking?.(timeframe, board);
+    const live = await deps.store.getBuildInfo(timeframe);
+    const version = requested ?? live?.version ?? null;
+    const builtAt =
+      version === live?.version ? live.builtAt : version ? buildTimeOf(version) : null;
+    // Store calls of one read reuse the build hash read here.
+    const snapshot: LeaderboardSnapshotOptions = { version, build: live };
+    return {
+      version,
+      snapshot,
+      expired: version !== null && version !== live?.version,
+      meta: {
+        buildVersion: version,
+        builtAt,
+        // Same rule as the service: the period the snapshot was built in.
+        period: calendarPeriod(
+          definition.timeframes[timeframe],
+          new Date(builtAt ?? Date.now()),
+          definition.timezone,
+        ),
+      },
+    };
+  };
+
+  const hydrateRows = async (
+    timeframe: Timeframe,
+    ranked: Array<{ userId: string; score: number; rank: number }>,
+    leaderboard: Board,
+    descending: boolean,
+    includeScores: readonly Board[] | undefined,
+    snapshot: LeaderboardSnapshotOptions,
+  ): Promise<Array<LeaderboardRankedRow<Board>>> => {
+    const include = unique<Board>(
+      [leaderboard, ...(includeScores ?? allBoards)] as Board[],
+    );
+    const userIds = ranked.map((entry) => entry.userId);
+    const [scoreRows, previousRanks] = await Promise.all([
+      deps.store.getScoresBatch(timeframe, userIds, snapshot),
+      deps.store.getPreviousRanks(userIds, timeframe, leaderboard, descending, {
+        rankStrategy,
+        ...snapshot,
+      }),
+    ]);
+
+    return ranked.map((entry) => ({
+      userId: entry.userId,
+      rank: entry.rank,
+      score: entry.score,
+      scores: buildScoreMap(timeframe, scoreRows.get(entry.userId), include),
+      ...rankMovement(entry.rank, previousRanks.get(entry.userId)),
+    }));
+  };
+
   const getUserRankWithScores = async <TBoard extends Board>(query: {
     leaderboard: TBoard;
     timeframe: TimeframesForBoardFromSchema<
@@ -465,78 +654,252 @@ export function createLbQuery<
     userId: string;
     direction?: "asc" | "desc";
     includeScores?: readonly Board[];
+    /** `buildVersion` of an earlier `list` result. */
+    version?: string | null;
   }): Promise<LeaderboardRankedRow<Board> | null> => {
     const timeframe = query.timeframe as Timeframe;
     assertSupported(query.leaderboard, timeframe);
 
     const descending = (query.direction ?? definition.defaults.sort ?? "desc") === "desc";
-    const ranked = await deps.store.getUserRank(
-      query.userId,
+    const { snapshot } = await resolveSnapshot(timeframe, query.leaderboard, query.version);
+    const [ranked, position, total] = await Promise.all([
+      deps.store.getUserRank(query.userId, timeframe, query.leaderboard, descending, {
+        rankStrategy,
+        ...snapshot,
+      }),
+      // Percentiles count the users ahead, which only the competition rank does for ties.
+      rankStrategy === "competition"
+        ? null
+        : deps.store.getUserRank(query.userId, timeframe, query.leaderboard, descending, {
+            rankStrategy: "competition",
+            ...snapshot,
+          }),
+      deps.store.countRanked(timeframe, query.leaderboard, snapshot),
+    ]);
+    if (!ranked) return null;
+
+    const [row] = await hydrateRows(
       timeframe,
+      [ranked],
       query.leaderboard,
       descending,
+      query.includeScores,
+      snapshot,
     );
-    if (!ranked) return null;
+    return row
+      ? { ...row, percentile: rankPercentile(position?.rank ?? ranked.rank, total) }
+      : null;
+  };
+
+  const getTopOrBottomWithScores = async <TBoard extends Board>(query: {
+    leaderboard: TBoard;
+    timeframe: TimeframesForBoardFromSchema<
+      LeaderboardSchemaDefinition<TTimeframes, TBoards>,
+      TBoard
+    >;
+    direction?: "asc" | "desc";
+    limit?: number;
+    offset?: number;
+    cursor?: string | null;
+    includeScores?: readonly Board[];
+    version?: string | null;
+  }): Promise<LeaderboardListResult<Board>> => {
+    const timeframe = query.timeframe as Timeframe;
+    assertSupported(query.leaderboard, timeframe);
+
+    const direction = query.direction ?? definition.defaults.sort ?? "desc";
+    const limit = Math.max(1, Math.min(definition.defaults.maxLimit ?? 100, query.limit ?? 25));
+    let offset = Math.max(0, Math.floor(query.offset ?? 0));
+    let requested = query.version;
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor);
+      if (!cursor) {
+        throw new LeaderboardQueryError("Invalid cursor");
+      }
+      if (
+        cursor.timeframe !== timeframe ||
+        cursor.orderBy !== query.leaderboard ||
+        cursor.sort !== direction
+      ) {
+        throw new LeaderboardQueryError("Cursor does not match query");
+      }
+      offset = cursor.offset;
+      requested = cursor.version ?? requested;
+    }
 
+    if (!responseCache) return readList(query, timeframe, direction, limit, offset, requested);
     const include = unique<Board>(
       [query.leaderboard, ...(query.includeScores ?? allBoards)] as Board[],
     );
-    const scoreRows = await deps.store.getScoresBatch(timeframe, [query.userId]);
-    const scores = buildScoreMap(timeframe, scoreRows.get(query.userId), include);
+    const key = JSON.stringify([
+      query.leaderboard,
+      direction,
+      limit,
+      offset,
+      requested ?? null,
+      include,
+    ]);
+    return responseCache.read(timeframe, key, () =>
+      readList(query, timeframe, direction, limit, offset, requested),
+    );
+  };
 
-    return {
-      userId: ranked.userId,
-      rank: ranked.rank,
-      score: ranked.score,
-      scores,
-    };
+  const readList = async (
+    query: { leaderboard: Board; includeScores?: readonly Board[] },
+    timeframe: Timeframe,
+    direction: "asc" | "desc",
+    limit: number,
+    offset: number,
+    requested: string | null | undefined,
+  ): Promise<LeaderboardListResult<Board>> => {
+    const descending = direction === "desc";
+    const { version, snapshot, expired, meta } = await resolveSnapshot(
+      timeframe,
+      query.leaderboard,
+      requested,
+    );
+    const [ranked, total] = await Promise.all([
+      deps.store.getTopRankedUsers(
+        timeframe,
+        query.leaderboard,
+        limit + 1,
+        descending,
+        { offset, rankStrategy, ...snapshot },
+      ),
+      deps.store.countRanked(timeframe, query.leaderboard, snapshot),
+    ]);
+    if (!ranked && expired) {
+      throw new LeaderboardQueryError("Leaderboard snapshot has expired");
+    }
+    if (!ranked || ranked.length === 0) {
+      return { rows: [], total, nextCursor: null, hasMore: false, ...meta };
+    }
+
+    const hasMore = ranked.length > limit;
+    const rows = await hydrateRows(
+      timeframe,
+      ranked.slice(0, limit),
+      query.leaderboard,
+      descending,
+      query.includeScores,
+      snapshot,
+    );
+    const nextCursor = hasMore
+      ? encodeCursor({
+          offset: offset + limit,
+          timeframe,
+          orderBy: query.leaderboard,
+          sort: direction,
+          version,
+        })
+      : null;
+
+    return { rows, total, nextCursor, hasMore, ...meta };
   };
 
-  const getTopOrBottomWithScores = async <TBoard extends Board>(query: {
+  const getAroundWithScores = async <TBoard extends Board>(query: {
     leaderboard: TBoard;
     timeframe: TimeframesForBoardFromSchema<
       LeaderboardSchemaDefinition<TTimeframes, TBoards>,
       TBoard
     >;
+    userId: string;
     direction?: "asc" | "desc";
-    limit?: number;
+    above?: number;
+    below?: number;
     includeScores?: readonly Board[];
+    version?: string | null;
   }): Promise<Array<LeaderboardRankedRow<Board>>> => {
     const timeframe = query.timeframe as Timeframe;
     assertSupported(query.leaderboard, timeframe);
 
     const descending = (query.direction ?? definition.defaults.sort ?? "desc") === "desc";
-    const limit = Math.max(1, Math.min(definition.defaults.maxLimit ?? 100, query.limit ?? 25));
-    const ranked = await deps.store.getTopRankedUsers(
+    const maxLimit = definition.defaults.maxLimit ?? 100;
+    const clamp = (value: number | undefined) => Math.max(0, Math.min(maxLimit, value ?? 5));
+    const { snapshot } = await resolveSnapshot(timeframe, query.leaderboard, query.version);
+    const ranked = await deps.store.getUsersAround(
+      query.userId,
       timeframe,
       query.leaderboard,
-      limit,
+      clamp(query.above),
+      clamp(query.below),
       descending,
+      { rankStrategy, ...snapshot },
     );
     if (!ranked || ranked.length === 0) return [];
 
-    const include = unique<Board>(
-      [query.leaderboard, ...(query.includeScores ?? allBoards)] as Board[],
+    return hydrateRows(
+      timeframe,
+      ranked,
+      query.leaderboard,
+      descending,
+      query.includeScores,
+      snapshot,
     );
-    const userIds = ranked.map((entry) => entry.userId);
-    const scoreRows = await deps.store.getScoresBatch(timeframe, userIds);
+  };
 
-    return ranked.map((entry) => ({
-      userId: entry.userId,
-      rank: entry.rank,
-      score: entry.score,
-      scores: buildScoreMap(timeframe, scoreRows.get(entry.userId), include),
-    }));
+  /** Per-bucket scores of a user over a timeframe, oldest first, e.g. for sparklines. */
+  const getUserHistory = async <TBoard extends Board>(query: {
+    leaderboard: TBoard;
+    timeframe: TimeframesForBoardFromSchema<
+      LeaderboardSchemaDefinition<TTimeframes, TBoards>,
+      TBoard
+    >;
+    userId: string;
+    date?: Date;
+  }): Promise<LeaderboardHistoryPoint[]> => {
+    const timeframe = query.timeframe as Timeframe;
+    assertSupported(query.leaderboard, timeframe);
+    return deps.store.getUserHistory(query.userId, query.leaderboard, timeframe, query.date);
   };
 
   return {
     user: getUserRankWithScores,
+    /** With `responseCache` on, concurrent identical reads share one result object. */
     list: getTopOrBottomWithScores,
+    around: getAroundWithScores,
+    history: getUserHistory,
+    /**
+     * Drops cached `list` results for `timeframes`, or all of them. Runtimes call it
+     * after their own writes; call it when another process writes.
+     */
+    invalidate: (timeframes?: readonly Timeframe[]) => responseCache?.invalidate(timeframes),
   };
 }
 /** @deprecated Use `createLbQuery(...)`. */
 export const createLeaderboardQueryApi = createLbQuery;
 
+/**
+ * A runtime's service writes, each followed by dropping the `list` results it made
+ * stale: ingest touches realtime timeframes, a rebuild its own, anything else all.
+ */
+function invalidatingWrites<TBoard extends string, TTimeframe extends string>(
+  service: ReturnType<typeof createLeaderboardService<TBoard, TTimeframe>>,
+  query: { invalidate: (timeframes?: readonly TTimeframe[]) => void },
+  realtimeTimeframes: readonly TTimeframe[],
+) {
+  const after = async <T>(timeframes: readonly TTimeframe[] | undefined, write: Promise<T>) => {
+    try {
+      return await write;
+    } finally {
+      query.invalidate(timeframes);
+    }
+  };
+
+  return {
+    ingest: (...args: Parameters<typeof service.ingest>) =>
+      after(realtimeTimeframes, service.ingest(...args)),
+    backfill: (...args: Parameters<typeof service.backfill>) =>
+      after(undefined, service.backfill(...args)),
+    rebuild: (...args: Parameters<typeof service.rebuild>) =>
+      after(args[0], service.rebuild(...args)),
+    removeUser: (...args: Parameters<typeof service.removeUser>) =>
+      after(undefined, service.removeUser(...args)),
+    resetBoard: (...args: Parameters<typeof service.resetBoard>) =>
+      after(undefined, service.resetBoard(...args)),
+  };
+}
+
 export function createRedisLb<
   const TTimeframes extends Record<string, TimeframeSpec>,
   const TBoards extends Record<
@@ -544,13 +907,13 @@ export function createRedisLb<
     LeaderboardBoardDefinition<keyof TTimeframes & string>
   >,
 >(
-  client: RedisLeaderboardClient,
+  client: RedisLeaderboardClient & RedisProfileClient,
   definition: LeaderboardSchemaDefinition<TTimeframes, TBoards>,
   deps: Omit<
     CreateLeaderboardServiceDeps<
       keyof TBoards & string,
       keyof TTimeframes & string,
-      Record<string, never>
+      LeaderboardMetadata
     >,
     "store"
   > = {},
@@ -560,21 +923,38 @@ export function createRedisLb<
 
   const built = bundleFromSchema(definition);
   const store = createRedisLeaderboardStore<Board, Timeframe>(client, built.redis);
-  const service = createLeaderboardService<Board, Timeframe, Record<string, never>>(
-    built.service,
-    { ...deps, store },
-  );
-  const query = createLbQuery(definition, { store });
+  const profiles = createRedisProfileStore<Timeframe>(client, built.keys);
+  const service = createLeaderboardService<Board, Timeframe>(built.service, {
+    usernames: profiles,
+    metadata: profiles,
+    ...deps,
+    store,
+  });
+  const query = createLbQuery(definition, { store, logger: deps.logger });
+  const writes = invalidatingWrites(service, query, built.redis.realtimeTimeframes ?? []);
 
   return {
     definition,
     keys: built.keys,
     store,
+    /** Usernames and metadata in the `keys.names()` / `keys.metadata(timeframe)` hashes. */
+    profiles,
     query,
     write: {
-      ingest: service.ingest,
-      rebuild: service.rebuild,
+      ...writes,
+      setUsername: (userId: string, username: string) => profiles.setUsername(userId, username),
+      mergeMetadata: (timeframe: Timeframe, userId: string, patch: LeaderboardMetadata) =>
+        profiles.mergeMetadata(timeframe, userId, patch),
     },
+    /** Rebuilds every timeframe on its derived cadence, one instance at a time. */
+    schedule: (options: LbScheduleOptions<Timeframe> = {}) =>
+      createRebuildScheduler<Timeframe>({
+        timeframes: definition.timeframes,
+        rebuild: writes.rebuild,
+        lock: store,
+        logger: deps.logger,
+        ...options,
+      }),
   };
 }
 /** @deprecated Use `createRedisLb(...)`. */
@@ -593,7 +973,7 @@ export async function createRedisLbFromUrl<
     CreateLeaderboardServiceDeps<
       keyof TBoards & string,
       keyof TTimeframes & string,
-      Record<string, never>
+      LeaderboardMetadata
     >,
     "store"
   > = {},
@@ -607,12 +987,13 @@ export async function createRedisLbFromUrl<
     );
   }
 
-  const client = createClient?.({ url }) as RedisLeaderboardClient & {
-    isOpen?: boolean;
-    connect?: () => Promise<void>;
-    quit?: () => Promise<void>;
-    disconnect?: () => void;
-  };
+  const client = createClient?.({ url }) as RedisLeaderboardClient &
+    RedisProfileClient & {
+      isOpen?: boolean;
+      connect?: () => Promise<void>;
+      quit?: () => Promise<void>;
+      disconnect?: () => void;
+    };
 
   if (!client) {
     throw new LeaderboardConfigError("Failed to create Redis client from URL");
@@ -649,24 +1030,25 @@ export function createMemoryLb<
   type Timeframe = keyof TTimeframes & string;
 
   const built = bundleFromSchema(definition);
-  const store = createMemoryLeaderboardStore<Board, Timeframe>({
-    categories: built.supports.boards,
-    timeframes: built.supports.timeframes,
-  });
+  const store = createMemoryLeaderboardStore<Board, Timeframe>(built.redis);
   const service = createLeaderboardService<Board, Timeframe>(built.service, {
     store,
   });
   const query = createLbQuery(definition, { store });
+  const writes = invalidatingWrites(service, query, built.redis.realtimeTimeframes ?? []);
 
   return {
     definition,
     keys: built.keys,
     store,
     query,
-    write: {
-      ingest: service.ingest,
-      rebuild: service.rebuild,
-    },
+    write: writes,
+    schedule: (options: LbScheduleOptions<Timeframe> = {}) =>
+      createRebuildScheduler<Timeframe>({
+        timeframes: definition.timeframes,
+        rebuild: writes.rebuild,
+        ...options,
+      }),
   };
 }
 /** @deprecated Use `createMemoryLb(...)`. */
@@ -1,9 +1,30 @@
 import type {
+  LeaderboardAroundOptions,
+  LeaderboardAroundResponse,
+  LeaderboardBackfillEvent,
+  LeaderboardBackfillOptions,
   LeaderboardEntry,
+  LeaderboardHistoryPoint,
+  LeaderboardIngestEntry,
+  LeaderboardIngestResult,
   LeaderboardMetadata,
+  LeaderboardPeriod,
   LeaderboardQuery,
+  LeaderboardRemoveUserOptions,
   LeaderboardResponse,
+  LeaderboardSnapshotOptions,
+  NormalizedLeaderboardQuery,
+  RankStrategy,
+  RankedUser,
+  ReadThroughOptions,
+  ResponseCacheOptions,
 } from "./types";
+import { decodeCursor, encodeCursor } from "./cursor";
+import { rankMovement } from "./ranking";
+import { createReadThrough } from "./read-through";
+import { createResponseCache } from "./response-cache";
+import { entryMeta } from "./ingest";
+import { buildTimeOf } from "./snapshot";
 import type {
   LeaderboardStorePort,
   LoggerPort,
@@ -23,6 +44,22 @@ export type CreateLeaderboardServiceConfig<
   defaultLimit?: number;
   maxLimit?: number;
   fallbackUsername?: (userId: string) => string;
+  /** Default: `ordinal`. `dense` reads cost O(rank) on Redis; see `RankStrategy`. */
+  rankStrategy?: RankStrategy;
+  /** Rebuild a timeframe on read when its rank key is missing. Off by default. */
+  readThrough?: boolean | ReadThroughOptions;
+  /**
+   * Cache `getLeaderboard` responses in process. Off by default. Writes made through
+   * this service drop the responses they make stale; others are seen after `ttlMs`.
+   */
+  responseCache?: boolean | ResponseCacheOptions;
+  /**
+   * Timeframes ranked straight from ingested windows, whose cached responses ingest
+   * drops. Bundles derive them; without them, ingest drops every cached response.
+   */
+  realtimeTimeframes?: readonly TTimeframe[];
+  /** Period reported on responses for calendar timeframes; bundles derive it from their specs. */
+  resolvePeriod?: (timeframe: TTimeframe, date: Date) => LeaderboardPeriod | null;
 };
 
 export class LeaderboardConfigError extends Error {
@@ -39,6 +76,16 @@ export class LeaderboardQueryError extends Error {
   }
 }
 
+/**
+ * Share of the board at or above `position`, as a percentage rounded to two decimals.
+ * `position` is the competition rank (users ranked ahead plus one), whatever
+ * `rankStrategy` the board numbers its rows with.
+ */
+export function rankPercentile(position: number, total: number): number {
+  if (total <= 0) return 100;
+  return Math.round((Math.min(position, total) / total) * 10_000) / 100;
+}
+
 export type CreateLeaderboardServiceDeps<
   TCategory extends string,
   TTimeframe extends string,
@@ -79,6 +126,9 @@ export function createLeaderboardService<
   }
   const fallbackUsername =
     config.fallbackUsername ?? ((userId: string) => `User ${userId.slice(0, 8)}`);
+  const rankStrategy = config.rankStrategy ?? "ordinal";
+  const ensureRanking = createReadThrough(deps.store, config.readThrough, deps.logger);
+  const responseCache = createResponseCache<TTimeframe>(config.responseCache);
   const categories = new Set<TCategory>(config.categories);
   const timeframes = new Set<TTimeframe>(config.timeframes);
   const emptyScores = () =>
@@ -87,28 +137,109 @@ export function createLeaderboardService<
       number
     >;
 
+  const assertCategory = (category: TCategory) => {
+    if (!categories.has(category)) {
+      throw new LeaderboardQueryError(`Unknown category: ${String(category)}`);
+    }
+  };
+
+  const assertTimeframe = (timeframe: TTimeframe) => {
+    if (!timeframes.has(timeframe)) {
+      throw new LeaderboardQueryError(`Unknown timeframe: ${String(timeframe)}`);
+    }
+  };
+
   const normalizeQuery = (
     query?: Partial<LeaderboardQuery<TCategory, TTimeframe>>,
-  ): Required<LeaderboardQuery<TCategory, TTimeframe>> => {
+  ): NormalizedLeaderboardQuery<TCategory, TTimeframe> => {
     const orderBy = query?.orderBy ?? config.defaultCategory;
     const timeframe = query?.timeframe ?? config.defaultTimeframe;
     const sort = query?.sort ?? defaultSort;
     const rawLimit = query?.limit ?? defaultLimit;
     const limit = Math.max(1, Math.min(maxLimit, rawLimit));
+    let offset = Math.max(0, Math.floor(query?.offset ?? 0));
+    let version = query?.version ?? null;
 
-    if (!categories.has(orderBy)) {
-      throw new LeaderboardQueryError(`Unknown category: ${String(orderBy)}`);
-    }
-    if (!timeframes.has(timeframe)) {
-      throw new LeaderboardQueryError(`Unknown timeframe: ${String(timeframe)}`);
+    assertCategory(orderBy);
+    assertTimeframe(timeframe);
+
+    if (query?.cursor) {
+      const cursor = decodeCursor(query.cursor);
+      if (!cursor) {
+        throw new LeaderboardQueryError("Invalid cursor");
+      }
+      if (
+        cursor.timeframe !== timeframe ||
+        cursor.orderBy !== orderBy ||
+        cursor.sort !== sort
+      ) {
+        throw new LeaderboardQueryError("Cursor does not match query");
+      }
+      offset = cursor.offset;
+      version = cursor.version ?? version;
     }
 
-    return { orderBy, timeframe, sort, limit };
+    return { orderBy, timeframe, sort, limit, offset, version };
+  };
+
+  /**
+   * Pins a read to one build: the requested version, else whichever is live now.
+   * Reads made before the first versioned build use the live keys. `snapshot` carries
+   * the build hash read here to every store call of the read; `meta` is spread into
+   * the response.
+   */
+  const resolveSnapshot = async (query: NormalizedLeaderboardQuery<TCategory, TTimeframe>) => {
+    await ensureRanking?.(query.timeframe, query.orderBy);
+    const live = await deps.store.getBuildInfo(query.timeframe);
+    const version = query.version ?? live?.version ?? null;
+    const builtAt =
+      version === live?.version ? live.builtAt : version ? buildTimeOf(version) : null;
+    const snapshot: LeaderboardSnapshotOptions = { version, build: live };
+    return {
+      version,
+      snapshot,
+      expired: version !== null && version !== live?.version,
+      meta: {
+        buildVersion: version,
+        builtAt,
+        // The period the snapshot was built in, so an old cursor page keeps its own period.
+        period: config.resolvePeriod?.(query.timeframe, new Date(builtAt ?? Date.now())) ?? null,
+      },
+    };
+  };
+
+  const hydrateEntries = async (
+    query: NormalizedLeaderboardQuery<TCategory, TTimeframe>,
+    rankedUsers: RankedUser[],
+    snapshot: LeaderboardSnapshotOptions,
+  ): Promise<LeaderboardEntry<TCategory, TMetadata | null>[]> => {
+    const { timeframe } = query;
+    const userIds = rankedUsers.map((ranked) => ranked.userId);
+    const [scores, previousRanks, usernames, metadata] = await Promise.all([
+      deps.store.getScoresBatch(timeframe, userIds, snapshot),
+      deps.store.getPreviousRanks(userIds, timeframe, query.orderBy, query.sort === "desc", {
+        rankStrategy,
+        ...snapshot,
+      }),
+      deps.usernames?.getUsernames(userIds) ?? Promise.resolve(new Map<string, string>()),
+      deps.metadata?.getMetadata(timeframe, userIds) ??
+        Promise.resolve(new Map<string, TMetadata>()),
+    ]);
+
+    return rankedUsers.map((ranked) => ({
+      userId: ranked.userId,
+      username: usernames.get(ranked.userId) ?? fallbackUsername(ranked.userId),
+      rank: ranked.rank,
+      scores: scores.get(ranked.userId) ?? emptyScores(),
+      metadata: metadata.get(ranked.userId) ?? null,
+      ...rankMovement(ranked.rank, previousRanks.get(ranked.userId)),
+    }));
   };
 
   const getUserEntry = async (
     userId: string,
-    query: Required<LeaderboardQuery<TCategory, TTimeframe>>,
+    query: NormalizedLeaderboardQuery<TCategory, TTimeframe>,
+    snapshot: LeaderboardSnapshotOptions,
   ): Promise<LeaderboardEntry<TCategory, TMetadata | null> | null> => {
     const descending = query.sort === "desc";
     const ranked = await deps.store.getUserRank(
@@ -116,81 +247,204 @@ export function createLeaderboardService<
       query.timeframe,
       query.orderBy,
       descending,
+      { rankStrategy, ...snapshot },
     );
     if (!ranked) return null;
 
-    const [scores, usernames, metadata] = await Promise.all([
-      deps.store.getScoresBatch(query.timeframe, [userId]),
-      deps.usernames?.getUsernames([userId]) ?? Promise.resolve(new Map<string, string>()),
-      deps.metadata?.getMetadata(query.timeframe, [userId]) ??
-        Promise.resolve(new Map<string, TMetadata>()),
+    const [entry] = await hydrateEntries(query, [ranked], snapshot);
+    return entry ?? null;
+  };
+
+  // Dense and ordinal ranks undercount the users ahead of a tie, so percentiles ask for
+  // the competition rank when the board numbers rows another way.
+  const competitionPosition = async (
+    entry: { userId: string; rank: number },
+    query: NormalizedLeaderboardQuery<TCategory, TTimeframe>,
+    snapshot: LeaderboardSnapshotOptions,
+  ): Promise<number> => {
+    if (rankStrategy === "competition") return entry.rank;
+    const ranked = await deps.store.getUserRank(
+      entry.userId,
+      query.timeframe,
+      query.orderBy,
+      query.sort === "desc",
+      { rankStrategy: "competition", ...snapshot },
+    );
+    return ranked?.rank ?? entry.rank;
+  };
+
+  const assertEntries = (entries: ReadonlyArray<LeaderboardIngestEntry<TCategory>>) => {
+    for (const [, , meta] of entries) {
+      const { at, eventId } = entryMeta(meta);
+      if (eventId !== undefined && eventId.length === 0) {
+        throw new LeaderboardQueryError("eventId must not be empty");
+      }
+      if (at !== undefined && Number.isNaN(at.getTime())) {
+        throw new LeaderboardQueryError("Invalid entry timestamp");
+      }
+    }
+  };
+
+  const rebuildTimeframes = async (
+    timeframes: TTimeframe[],
+    date: Date = new Date(),
+    ttlSeconds = 300,
+  ): Promise<void> => {
+    await Promise.all(
+      timeframes.map((timeframe) =>
+        deps.store.buildRankingFromWindows(timeframe, date, ttlSeconds),
+      ),
+    ).catch((error) => {
+      deps.logger?.error?.("Failed rebuilding leaderboard", { error });
+      throw error;
+    });
+  };
+
+  const readLeaderboard = async (
+    q: NormalizedLeaderboardQuery<TCategory, TTimeframe>,
+    currentUserId: string | null | undefined,
+  ): Promise<LeaderboardResponse<TCategory, TMetadata | null>> => {
+    const descending = q.sort === "desc";
+    const { version, snapshot, expired, meta } = await resolveSnapshot(q);
+    // One extra row tells us whether another page exists.
+    const [rankedUsers, total] = await Promise.all([
+      deps.store.getTopRankedUsers(
+        q.timeframe,
+        q.orderBy,
+        q.limit + 1,
+        descending,
+        { offset: q.offset, rankStrategy, ...snapshot },
+      ),
+      deps.store.countRanked(q.timeframe, q.orderBy, snapshot),
     ]);
 
-    const userScores = scores.get(userId);
-    if (!userScores) return null;
+    if (!rankedUsers && expired) {
+      throw new LeaderboardQueryError("Leaderboard snapshot has expired");
+    }
+    if (!rankedUsers || rankedUsers.length === 0) {
+      return {
+        entries: [],
+        user: null,
+        total,
+        nextCursor: null,
+        hasMore: false,
+        ...meta,
+      };
+    }
 
-    return {
-      userId,
-      username: usernames.get(userId) ?? fallbackUsername(userId),
-      rank: ranked.rank,
-      scores: userScores,
-      metadata: metadata.get(userId) ?? null,
-    };
+    const hasMore = rankedUsers.length > q.limit;
+    const entries = await hydrateEntries(q, rankedUsers.slice(0, q.limit), snapshot);
+    const nextCursor = hasMore
+      ? encodeCursor({
+          offset: q.offset + q.limit,
+          timeframe: q.timeframe,
+          orderBy: q.orderBy,
+          sort: q.sort,
+          version,
+        })
+      : null;
+
+    let user: LeaderboardEntry<TCategory, TMetadata | null> | null = null;
+    if (currentUserId) {
+      const found =
+        entries.find((entry) => entry.userId === currentUserId) ??
+        (await getUserEntry(currentUserId, q, snapshot));
+      user = found
+        ? {
+            ...found,
+            percentile: rankPercentile(await competitionPosition(found, q, snapshot), total),
+          }
+        : null;
+    }
+
+    return { entries, user, total, nextCursor, hasMore, ...meta };
   };
 
+  /** Runs a write, then drops cached responses for the timeframes it touched (all by default). */
+  const invalidating = async <T>(
+    timeframes: readonly TTimeframe[] | undefined,
+    write: () => Promise<T>,
+  ): Promise<T> => {
+    try {
+      return await write();
+    } finally {
+      responseCache?.invalidate(timeframes);
+    }
+  };
+
+  const clampNeighbours = (value: number | undefined) =>
+    Math.max(0, Math.min(maxLimit, value ?? 5));
+
   return {
     normalizeQuery,
 
+    /** With `responseCache` on, concurrent identical reads share one response object. */
     async getLeaderboard(
       query?: Partial<LeaderboardQuery<TCategory, TTimeframe>>,
       currentUserId?: string | null,
     ): Promise<LeaderboardResponse<TCategory, TMetadata | null>> {
       const q = normalizeQuery(query);
-      const descending = q.sort === "desc";
-      const rankedUsers = await deps.store.getTopRankedUsers(
-        q.timeframe,
+      if (!responseCache) return readLeaderboard(q, currentUserId);
+
+      const key = JSON.stringify([
         q.orderBy,
+        q.sort,
         q.limit,
-        descending,
+        q.offset,
+        q.version,
+        currentUserId ?? null,
+      ]);
+      return responseCache.read(q.timeframe, key, () => readLeaderboard(q, currentUserId));
+    },
+    async getAround(
+      userId: string,
+      query?: Partial<LeaderboardQuery<TCategory, TTimeframe>>,
+      options?: LeaderboardAroundOptions,
+    ): Promise<LeaderboardAroundResponse<TCategory, TMetadata | null>> {
+      const q = normalizeQuery(query);
+      const { snapshot, meta } = await resolveSnapshot(q);
+      const rankedUsers = await deps.store.getUsersAround(
+        userId,
+        q.timeframe,
+        q.orderBy,
+        clampNeighbours(options?.above),
+        clampNeighbours(options?.below),
+        q.sort === "desc",
+        { rankStrategy, ...snapshot },
       );
 
       if (!rankedUsers || rankedUsers.length === 0) {
-        return { entries: [], user: null };
+        return { entries: [], user: null, ...meta };
       }
 
-      const userIds = rankedUsers.map((ranked) => ranked.userId);
-      const [scores, usernames, metadata] = await Promise.all([
-        deps.store.getScoresBatch(q.timeframe, userIds),
-        deps.usernames?.getUsernames(userIds) ?? Promise.resolve(new Map<string, string>()),
-        deps.metadata?.getMetadata(q.timeframe, userIds) ??
-          Promise.resolve(new Map<string, TMetadata>()),
-      ]);
-
-      const entries: LeaderboardEntry<TCategory, TMetadata | null>[] = rankedUsers.map(
-        (ranked) => ({
-          userId: ranked.userId,
-          username: usernames.get(ranked.userId) ?? fallbackUsername(ranked.userId),
-          rank: ranked.rank,
-          scores: scores.get(ranked.userId) ?? emptyScores(),
-          metadata: metadata.get(ranked.userId) ?? null,
-        }),
-      );
-
-      let user: LeaderboardEntry<TCategory, TMetadata | null> | null = null;
-      if (currentUserId) {
-        user =
-          entries.find((entry) => entry.userId === currentUserId) ??
-          (await getUserEntry(currentUserId, q));
-      }
+      const entries = await hydrateEntries(q, rankedUsers, snapshot);
+      return {
+        entries,
+        user: entries.find((entry) => entry.userId === userId) ?? null,
+        ...meta,
+      };
+    },
 
-      return { entries, user };
+    /** Per-bucket scores of `userId` over `timeframe`, oldest first, e.g. for sparklines. */
+    async getUserHistory(
+      userId: string,
+      category: TCategory,
+      timeframe: TTimeframe,
+      date: Date = new Date(),
+    ): Promise<LeaderboardHistoryPoint[]> {
+      assertCategory(category);
+      assertTimeframe(timeframe);
+      return deps.store.getUserHistory(userId, category, timeframe, date);
     },
 
     async ingest(
-      entries: Array<[userId: string, delta: Record<TCategory, number>]>,
+      entries: Array<LeaderboardIngestEntry<TCategory>>,
       date: Date = new Date(),
-    ): Promise<void> {
-      await deps.store.ingestWindows(entries, date);
+    ): Promise<LeaderboardIngestResult> {
+      assertEntries(entries);
+      return invalidating(config.realtimeTimeframes, () =>
+        deps.store.ingestWindows(entries, date),
+      );
     },
 
     async rebuild(
@@ -198,14 +452,54 @@ export function createLeaderboardService<
       date: Date = new Date(),
       ttlSeconds = 300,
     ): Promise<void> {
-      await Promise.all(
-        timeframes.map((timeframe) =>
-          deps.store.buildRankingFromWindows(timeframe, date, ttlSeconds),
-        ),
-      ).catch((error) => {
-        deps.logger?.error?.("Failed rebuilding leaderboard", { error });
-        throw error;
+      await invalidating(timeframes, () => rebuildTimeframes(timeframes, date, ttlSeconds));
+    },
+
+    /**
+     * Files historical events under the buckets of their own timestamps, then
+     * rebuilds the timeframes that read those buckets so they show up in rankings.
+     */
+    async backfill(
+      events: Array<LeaderboardBackfillEvent<TCategory>>,
+      options?: LeaderboardBackfillOptions<TTimeframe>,
+    ): Promise<LeaderboardIngestResult> {
+      options?.timeframes?.forEach(assertTimeframe);
+      assertEntries(events);
+      return invalidating(undefined, async () => {
+        const result =
+          events.length > 0
+            ? await deps.store.ingestWindows(events)
+            : { applied: 0, skipped: 0 };
+        const timeframes =
+          options?.timeframes ??
+          (events.length > 0
+            ? ((await deps.store.timeframesAffectedBy?.(events, options?.date)) ?? [
+                ...config.timeframes,
+              ])
+            : []);
+        await rebuildTimeframes(timeframes, options?.date, options?.ttlSeconds);
+        return result;
       });
     },
+
+    async removeUser(
+      userId: string,
+      options?: LeaderboardRemoveUserOptions<TCategory, TTimeframe>,
+    ): Promise<void> {
+      options?.categories?.forEach(assertCategory);
+      options?.timeframes?.forEach(assertTimeframe);
+      await invalidating(undefined, () => deps.store.removeUser(userId, options));
+    },
+
+    async resetBoard(
+      category: TCategory,
+      timeframe: TTimeframe,
+      date: Date = new Date(),
+    ): Promise<void> {
+      assertCategory(category);
+      assertTimeframe(timeframe);
+      // Buckets shared with other timeframes go too, so every cached response is dropped.
+      await invalidating(undefined, () => deps.store.resetBoard(category, timeframe, date));
+    },
   };
 }
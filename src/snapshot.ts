@@ -0,0 +1,15 @@
+/** Unique, roughly time-ordered id for one rank build. */
+export function createBuildVersion(now: number = Date.now()): string {
+  return `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Build time encoded in a version from `createBuildVersion`, or `null`. */
+export function buildTimeOf(version: string): number | null {
+  const builtAt = Number.parseInt(version.split("-")[0] ?? "", 36);
+  return Number.isFinite(builtAt) ? builtAt : null;
+}
+
+/** Key holding the `version` snapshot of a live rank key. */
+export function snapshotKey(rankKey: string, version: string): string {
+  return `${rankKey}:v:${version}`;
+}
@@ -0,0 +1,71 @@
+import { LeaderboardConfigError } from "./service";
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/** Throws `LeaderboardConfigError` unless `timezone` is an IANA zone `Intl` knows. */
+export function assertTimezone(timezone: string): void {
+  try {
+    formatterFor(timezone);
+  } catch {
+    throw new LeaderboardConfigError(`Unknown timezone "${timezone}"`);
+  }
+}
+
+/**
+ * The local time of `date` in `timezone`, as a Date whose UTC fields hold the
+ * wall-clock values. Lets the UTC bucket helpers work on local time.
+ */
+export function toWallClock(date: Date, timezone: string): Date {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timezone).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return new Date(
+    Date.UTC(
+      parts.year ?? 1970,
+      (parts.month ?? 1) - 1,
+      parts.day ?? 1,
+      parts.hour ?? 0,
+      parts.minute ?? 0,
+      parts.second ?? 0,
+      date.getUTCMilliseconds(),
+    ),
+  );
+}
+
+/**
+ * The instant showing `wall` on clocks in `timezone`. Repeated wall times
+ * resolve to their first occurrence; wall times skipped by a DST jump move
+ * forward by the jump, so a skipped midnight becomes the first instant of the day.
+ */
+export function fromWallClock(wall: Date, timezone: string): Date {
+  const offsetAt = (instant: number) =>
+    toWallClock(new Date(instant), timezone).getTime() - instant;
+
+  const guess = wall.getTime() - offsetAt(wall.getTime());
+  const offset = offsetAt(guess);
+  const instant = wall.getTime() - offset;
+  if (toWallClock(new Date(instant), timezone).getTime() === wall.getTime()) {
+    return new Date(instant);
+  }
+  // In a gap: reading the wall time with the offset from before the jump moves it past the gap.
+  return new Date(wall.getTime() - Math.min(offset, offsetAt(instant)));
+}
@@ -13,6 +13,12 @@ export type LeaderboardEntry<
   rank: number;
   scores: LeaderboardScores<TCategory>;
   metadata: TMetadata;
+  /** Rank in the build before this one; `null` for a new entrant. */
+  previousRank: number | null;
+  /** `previousRank - rank`: positive means the user moved up. `null` for a new entrant. */
+  rankDelta: number | null;
+  /** Set on the current user only: share of the board at or above this rank (`2.18` = top 2.18%). */
+  percentile?: number;
 };
 
 export type LeaderboardResponse<
@@ -21,10 +27,69 @@ export type LeaderboardResponse<
 > = {
   entries: LeaderboardEntry<TCategory, TMetadata>[];
   user: LeaderboardEntry<TCategory, TMetadata> | null;
+  total: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+  /** Snapshot the rows were read from; pass it back as `version` to pin later reads. */
+  buildVersion: string | null;
+  /** Epoch milliseconds of that snapshot's build. */
+  builtAt: number | null;
+  /** Current period of a calendar timeframe; `null` for rolling and all-time ones. */
+  period: LeaderboardPeriod | null;
+};
+
+export type LeaderboardAroundResponse<
+  TCategory extends string,
+  TMetadata extends LeaderboardMetadata | null = LeaderboardMetadata | null,
+> = {
+  entries: LeaderboardEntry<TCategory, TMetadata>[];
+  user: LeaderboardEntry<TCategory, TMetadata> | null;
+  buildVersion: string | null;
+  builtAt: number | null;
+  period: LeaderboardPeriod | null;
+};
+
+export type LeaderboardAroundOptions = {
+  above?: number;
+  below?: number;
 };
 
 export type LeaderboardDelta<TCategory extends string> = LeaderboardScores<TCategory>;
 
+export type LeaderboardEntryMeta = {
+  /** Files the entry under the buckets of this time instead of the batch date. */
+  at?: Date;
+  /** Entries repeating an ID already ingested within the store's dedupe horizon are skipped. */
+  eventId?: string;
+};
+
+/** A bare `Date` third element is shorthand for `{ at }`. */
+export type LeaderboardIngestEntry<TCategory extends string> = [
+  userId: string,
+  delta: LeaderboardDelta<TCategory>,
+  meta?: Date | LeaderboardEntryMeta,
+];
+
+export type LeaderboardBackfillEvent<TCategory extends string> = [
+  userId: string,
+  delta: LeaderboardDelta<TCategory>,
+  meta: Date | (LeaderboardEntryMeta & { at: Date }),
+];
+
+export type LeaderboardIngestResult = {
+  applied: number;
+  /** Entries dropped as duplicates of an earlier `eventId`. */
+  skipped: number;
+};
+
+export type LeaderboardBackfillOptions<TTimeframe extends string> = {
+  /** Timeframes to rebuild afterwards. Default: those reading a bucket the events wrote to. */
+  timeframes?: TTimeframe[];
+  /** Date the rebuild is relative to. Default: now. */
+  date?: Date;
+  ttlSeconds?: number;
+};
+
 export type RankedUser = {
   userId: string;
   score: number;
@@ -36,4 +101,93 @@ export type LeaderboardQuery<TCategory extends string, TTimeframe extends string
   sort?: "asc" | "desc";
   timeframe: TTimeframe;
   limit?: number;
+  offset?: number;
+  /** Opaque `nextCursor` from a previous page; takes precedence over `offset`. */
+  cursor?: string | null;
+  /** `buildVersion` of an earlier response; reads that snapshot instead of the live board. */
+  version?: string | null;
+};
+
+export type NormalizedLeaderboardQuery<
+  TCategory extends string,
+  TTimeframe extends string,
+> = Required<Omit<LeaderboardQuery<TCategory, TTimeframe>, "cursor">>;
+
+/** Epoch milliseconds; `start` is inclusive and `end` exclusive. */
+export type LeaderboardPeriod = {
+  start: number;
+  end: number;
+};
+
+/** `[bucketStart, value]`: a bucket's start in epoch milliseconds and the user's score in it. */
+export type LeaderboardHistoryPoint = [bucketStart: number, value: number];
+
+/** The rank build currently live for a timeframe. */
+export type LeaderboardBuildInfo = {
+  version: string;
+  /** Epoch milliseconds. */
+  builtAt: number;
+  previousVersion: string | null;
+};
+
+export type LeaderboardSnapshotOptions = {
+  /** Read a specific build; omitted means the live rank keys. */
+  version?: string | null;
+  /**
+   * The timeframe's live build as the caller already read it (`null` for none), so
+   * stores do not read it again for each call of one query. Omitted means the store reads it.
+   */
+  build?: LeaderboardBuildInfo | null;
+};
+
+/**
+ * How tied scores are numbered:
+ * - `ordinal`: every row gets its own position (1234).
+ * - `competition`: ties share a rank and the next rank is skipped (1224).
+ * - `dense`: ties share a rank and the next rank follows on (1223). On Redis each
+ *   read counts the distinct scores ahead of its first row by reading every member
+ *   ahead of it, so a page deep in a large board costs O(rank).
+ */
+export type RankStrategy = "ordinal" | "competition" | "dense";
+
+/**
+ * Resolves equal `orderBy` scores:
+ * - `firstToReach`: whoever reached the score earliest (tracked at ingest) wins.
+ * - `category`: compare another category of the same timeframe (`desc` = higher wins).
+ */
+export type LeaderboardTieBreaker<TCategory extends string> =
+  | { type: "firstToReach" }
+  | { type: "category"; category: TCategory; sort?: "asc" | "desc" };
+
+/** Omitted filters mean every configured category / timeframe. */
+export type LeaderboardRemoveUserOptions<TCategory extends string, TTimeframe extends string> = {
+  categories?: TCategory[];
+  timeframes?: TTimeframe[];
+};
+
+export type LeaderboardRankOptions = LeaderboardSnapshotOptions & {
+  rankStrategy?: RankStrategy;
+};
+
+export type LeaderboardReadOptions = LeaderboardRankOptions & {
+  offset?: number;
+};
+
+export type ResponseCacheOptions = {
+  /** How long a cached response is served when no write invalidates it first. Default: 1000. */
+  ttlMs?: number;
+  /** Most responses kept before the least recently used are evicted. Default: 1000. */
+  maxEntries?: number;
+};
+
+/** Opt-in rebuild of a timeframe whose rank key is missing when it is read. */
+export type ReadThroughOptions = {
+  /** TTL given to rank keys rebuilt on read. Default: 300. */
+  rankTtlSeconds?: number;
+  /** Lifetime of the cross-process rebuild lock. Default: 30. */
+  lockTtlSeconds?: number;
+  /** How long a reader that lost the lock waits for the rank key. Default: 5000. */
+  waitTimeoutMs?: number;
+  /** Polling interval while waiting on another process. Default: 50. */
+  pollIntervalMs?: number;
 };
@@ -19,6 +19,10 @@ export type WindowedLeaderboardConfig<
   windows: readonly TWindow[];
   isComparisonCategory?: (category: TCategory) => boolean;
   shouldIngestForTimeframe?: (timeframe: TTimeframe) => boolean;
+  /**
+   * Windows a timeframe builds from at `date`. Each `date` should be the start of its
+   * window: `getUserHistory` reports it as the bucket start as-is.
+   */
   getBuildWindowSources: (
     timeframe: TTimeframe,
     date: Date,
@@ -31,6 +35,11 @@ export type WindowedLeaderboardConfig<
     category: TCategory,
   ) => string;
   formatRankKey?: (prefix: string, timeframe: TTimeframe, category: TCategory) => string;
+  /**
+   * Timeframes ranked straight from one window's key (formatted for the current date)
+   * instead of a built rank key; meant for all-time windows. They never need a rebuild.
+   */
+  realtimeWindows?: Partial<Record<TTimeframe, TWindow>>;
   formatMetadataKey?: (prefix: string, timeframe: TTimeframe) => string;
   formatNamesKey?: (prefix: string) => string;
 };
@@ -70,9 +79,17 @@ export function createWindowedLeaderboardRedisConfig<
     config.shouldIngestForTimeframe ??
     ((timeframe: TTimeframe) => timeframe === config.timeframes[0]);
 
+  const realtimeTimeframes = config.timeframes.filter(
+    (timeframe) => config.realtimeWindows?.[timeframe] !== undefined,
+  );
+
   const keys = {
-    rank: (timeframe: TTimeframe, category: TCategory) =>
-      rankKey(config.prefix, timeframe, category),
+    rank: (timeframe: TTimeframe, category: TCategory): string => {
+      const window = config.realtimeWindows?.[timeframe];
+      return window === undefined
+        ? rankKey(config.prefix, timeframe, category)
+        : keys.window(window, new Date(), category);
+    },
     window: (window: TWindow, date: Date, category: TCategory) =>
       config.formatWindowKey(config.prefix, window, date, category),
     metadata: (timeframe: TTimeframe) => metadataKey(config.prefix, timeframe),
@@ -86,6 +103,7 @@ export function createWindowedLeaderboardRedisConfig<
       timeframes: config.timeframes,
       categoryAggregation,
       resolveRankKey: ({ timeframe, category }) => keys.rank(timeframe, category),
+      realtimeTimeframes,
       resolveIngestKeys: ({ timeframe, category, date }) => {
         if (!shouldIngestForTimeframe(timeframe)) return [];
         return config.windows.map((window) => keys.window(window, date, category));
@@ -94,6 +112,14 @@ export function createWindowedLeaderboardRedisConfig<
         config
           .getBuildWindowSources(timeframe, date, category)
           .map((source) => keys.window(source.window, source.date, category)),
+      resolveBucketStarts: ({ timeframe, category, date }) => {
+        const starts = new Map<string, Date>();
+        for (const source of config.getBuildWindowSources(timeframe, date, category)) {
+          const key = keys.window(source.window, source.date, category);
+          if (!starts.has(key)) starts.set(key, source.date);
+        }
+        return starts;
+      },
     },
     keys,
   };
@@ -29,6 +29,7 @@ export function lbQuerySchema<
       timeframe: timeframe.default(definition.defaults.timeframe as Timeframe),
       direction: direction.default(definition.defaults.sort ?? "desc"),
       includeScores: z.array(board).optional(),
+      version: z.string().min(1).optional(),
     })
     .superRefine((value, ctx) => {
       if (!supports(value.leaderboard as Board, value.timeframe as Timeframe)) {
@@ -47,6 +48,8 @@ export function lbQuerySchema<
       .min(1)
       .max(definition.defaults.maxLimit ?? 100)
       .default(definition.defaults.limit ?? 25),
+    offset: z.number().int().min(0).optional(),
+    cursor: z.string().min(1).optional(),
   });
 
   const user = base.extend({
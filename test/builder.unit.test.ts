@@ -36,6 +36,26 @@ describe("leaderboard builder", () => {
     expect(byBestStreak.entries[0]?.userId).toBe("u1");
   });
 
+  test("reports the current period of calendar timeframes", async () => {
+    const schema = leaderboard("contest")
+      .sum("points")
+      .calendar("month", { unit: "month" })
+      .defaults({ metric: "points", timeframe: "month" })
+      .build();
+
+    const engine = schema.createMemoryEngine();
+    await engine.insert("u1", { points: 10 });
+    await engine.refresh(["month"]);
+
+    const now = new Date();
+    const result = await engine.select({ timeframe: "month", orderBy: "points" });
+    expect(result.entries[0]?.userId).toBe("u1");
+    expect(result.period).toEqual({
+      start: Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1),
+      end: Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1),
+    });
+  });
+
   test("supports build(defaults) when defaults are not set in chain", () => {
     const schema = leaderboard("activity")
       .metric("score", { aggregation: "sum" })
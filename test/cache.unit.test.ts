@@ -0,0 +1,102 @@
+import { describe, expect, test } from "bun:test";
+import { createCachedMetadataPort, createCachedUsernamePort } from "../src";
+
+function countingUsernames(names: Record<string, string>) {
+  const calls: string[][] = [];
+  return {
+    calls,
+    async getUsernames(userIds: string[]) {
+      calls.push(userIds);
+      await Promise.resolve();
+      return new Map(userIds.filter((id) => names[id]).map((id) => [id, names[id]!]));
+    },
+  };
+}
+
+describe("cached profile ports", () => {
+  test("serves repeat lookups from the cache and caches unknown IDs as missing", async () => {
+    const port = countingUsernames({ u1: "ada", u2: "grace" });
+    const cached = createCachedUsernamePort(port);
+
+    expect(await cached.getUsernames(["u1", "u3", "u1"])).toEqual(new Map([["u1", "ada"]]));
+    expect(await cached.getUsernames(["u1", "u2", "u3"])).toEqual(
+      new Map([
+        ["u1", "ada"],
+        ["u2", "grace"],
+      ]),
+    );
+
+    expect(port.calls).toEqual([["u1", "u3"], ["u2"]]);
+    expect(cached.stats()).toEqual({
+      hits: 2,
+      negativeHits: 1,
+      misses: 3,
+      coalesced: 0,
+      evictions: 0,
+      size: 3,
+    });
+  });
+
+  test("expires entries after their TTL and evicts the least recently used", async () => {
+    let now = 0;
+    const port = countingUsernames({ u1: "ada", u2: "grace", u3: "linus" });
+    const cached = createCachedUsernamePort(port, {
+      maxEntries: 2,
+      ttlMs: 1_000,
+      negativeTtlMs: 100,
+      now: () => now,
+    });
+
+    await cached.getUsernames(["u1", "u2", "u4"]);
+    expect(cached.stats()).toMatchObject({ evictions: 1, size: 2 });
+    // u1 was evicted first; touching u2 keeps it over u4.
+    await cached.getUsernames(["u2"]);
+    await cached.getUsernames(["u3"]);
+    expect(port.calls.at(-1)).toEqual(["u3"]);
+    await cached.getUsernames(["u2", "u3"]);
+    expect(port.calls).toHaveLength(2);
+
+    now = 1_000;
+    await cached.getUsernames(["u2"]);
+    expect(port.calls.at(-1)).toEqual(["u2"]);
+  });
+
+  test("shares one fetch between concurrent lookups of the same IDs", async () => {
+    const port = countingUsernames({ u1: "ada", u2: "grace" });
+    const cached = createCachedUsernamePort(port);
+
+    const [first, second] = await Promise.all([
+      cached.getUsernames(["u1", "u2"]),
+      cached.getUsernames(["u2", "u1"]),
+    ]);
+
+    expect(first).toEqual(second);
+    expect(port.calls).toEqual([["u1", "u2"]]);
+    expect(cached.stats()).toMatchObject({ misses: 2, coalesced: 2 });
+  });
+
+  test("retries failed fetches and drops invalidated entries", async () => {
+    let fail = true;
+    let tier = "gold";
+    const calls: string[][] = [];
+    const cached = createCachedMetadataPort<"day" | "week", { tier: string }>({
+      async getMetadata(_timeframe, userIds) {
+        calls.push(userIds);
+        if (fail) throw new Error("redis unavailable");
+        return new Map(userIds.map((id) => [id, { tier }]));
+      },
+    });
+
+    await expect(cached.getMetadata("day", ["u1"])).rejects.toThrow("redis unavailable");
+    fail = false;
+    expect(await cached.getMetadata("day", ["u1"])).toEqual(new Map([["u1", { tier: "gold" }]]));
+    await cached.getMetadata("week", ["u1"]);
+    expect(calls).toHaveLength(3);
+
+    tier = "silver";
+    cached.invalidate("day", ["u1"]);
+    expect(await cached.getMetadata("day", ["u1"])).toEqual(new Map([["u1", { tier: "silver" }]]));
+    expect(await cached.getMetadata("week", ["u1"])).toEqual(new Map([["u1", { tier: "gold" }]]));
+    expect(calls).toHaveLength(4);
+  });
+});
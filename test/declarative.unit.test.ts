@@ -1,7 +1,12 @@
 import { describe, expect, test } from "bun:test";
-import { defineDeclarativeLeaderboard, createRedisLeaderboardEngineFromDeclarative } from "../src/declarative";
+import {
+  createBundleFromDeclarative,
+  createRedisLeaderboardEngineFromDeclarative,
+  defineDeclarativeLeaderboard,
+  type WindowRetention,
+} from "../src/declarative";
 import { createMemoryLeaderboardStore } from "../src/adapters";
-import { createLeaderboardService } from "../src/service";
+import { createLeaderboardService, LeaderboardConfigError } from "../src/service";
 
 describe("declarative leaderboard", () => {
   test("derives keys and service config from declarative definition", async () => {
@@ -102,4 +107,219 @@ describe("declarative leaderboard", () => {
     const res = await service.getLeaderboard({ timeframe: "day", orderBy: "score" });
     expect(res.entries[0]?.userId).toBe("u1");
   });
+
+  test("sends script-mode ingest batches in one eval", async () => {
+    const definition = defineDeclarativeLeaderboard({
+      ingestMode: "script",
+      metrics: {
+        points: { aggregation: "sum" },
+        best: { aggregation: "max" },
+      },
+      timeframes: { day: { type: "rolling", unit: "hour", size: 24 } },
+      defaults: { metric: "points", timeframe: "day" },
+    });
+    const calls: Array<{ keys: string[]; arguments: string[] }> = [];
+    const fakeClient = {
+      multi() {
+        throw new Error("script mode must not open a MULTI");
+      },
+      async eval(_script: string, options: { keys: string[]; arguments: string[] }) {
+        calls.push(options);
+        return 2;
+      },
+    };
+
+    const built = createRedisLeaderboardEngineFromDeclarative(fakeClient as any, definition, {});
+    await built.service.ingest(
+      [
+        ["u1", { points: 5, best: 3 }],
+        ["u2", { points: 0, best: 0.1 + 0.2 }],
+      ],
+      new Date(Date.UTC(2026, 2, 1, 10, 15)),
+    );
+
+    expect(calls).toHaveLength(1);
+    const [{ keys, arguments: args }] = calls;
+    const ops = JSON.parse(args[0] ?? "[]");
+    expect(ops.map((op: { k: number }) => keys[op.k - 1])).toEqual([
+      "lb:window:h:2026-03-01:10:points",
+      "lb:window:h:2026-03-01:10:best",
+    ]);
+    expect(ops.map((op: { a: string; r: number }) => [op.a, op.r])).toEqual([
+      ["sum", 0],
+      ["max", 0],
+    ]);
+    expect(ops[0].m).toEqual([["u1", "5"]]);
+    expect(ops[1].m).toEqual([
+      ["u1", "3"],
+      ["u2", "0.30000000000000004"],
+    ]);
+    expect(keys[ops[0].g - 1]).toBe("lb:registry:points");
+    expect(ops[0].t).toBeGreaterThan(0);
+    expect(Number(ops[0].e) - Number(args[1])).toBe(ops[0].t * 1000);
+  });
+
+  test("claims event IDs in the ingest script and retries without taken ones", async () => {
+    const definition = defineDeclarativeLeaderboard({
+      eventIdTtlSeconds: 60,
+      metrics: { points: { aggregation: "sum" } },
+      timeframes: { day: { type: "rolling", unit: "hour", size: 24 } },
+      defaults: { metric: "points", timeframe: "day" },
+    });
+    const claimed = new Set(["lb:event:e2"]);
+    const passes: string[][] = [];
+    const fakeClient = {
+      multi() {
+        throw new Error("event IDs must be claimed by the script");
+      },
+      async eval(_script: string, options: { keys: string[]; arguments: string[] }) {
+        const claims = (JSON.parse(options.arguments[2] ?? "[]") as number[]).map(
+          (index) => options.keys[index - 1] ?? "",
+        );
+        passes.push(claims);
+        const taken = claims.flatMap((key, idx) => (claimed.has(key) ? [idx + 1] : []));
+        if (taken.length === 0) claims.forEach((key) => claimed.add(key));
+        expect(options.arguments[3]).toBe("60");
+        return taken;
+      },
+    };
+
+    const built = createRedisLeaderboardEngineFromDeclarative(fakeClient as any, definition, {});
+    const result = await built.service.ingest([
+      ["u1", { points: 5 }, { eventId: "e1" }],
+      ["u2", { points: 3 }, { eventId: "e2" }],
+      ["u1", { points: 5 }, { eventId: "e1" }],
+      ["u3", { points: 1 }],
+    ]);
+
+    expect(result).toEqual({ applied: 2, skipped: 2 });
+    expect(passes).toEqual([["lb:event:e1", "lb:event:e2"], ["lb:event:e1"]]);
+    expect(claimed).toEqual(new Set(["lb:event:e1", "lb:event:e2"]));
+  });
+
+  test("rejects script-mode ingest on a client without eval", () => {
+    const definition = defineDeclarativeLeaderboard({
+      ingestMode: "script",
+      metrics: { points: { aggregation: "sum" } },
+      timeframes: { day: { type: "rolling", unit: "hour", size: 24 } },
+      defaults: { metric: "points", timeframe: "day" },
+    });
+
+    expect(() =>
+      createRedisLeaderboardEngineFromDeclarative({ multi() {} } as any, definition, {}),
+    ).toThrow(LeaderboardConfigError);
+  });
+
+  test("derives window TTLs from timeframe specs and retention overrides", () => {
+    const timeframes = {
+      day: { type: "rolling", unit: "hour", size: 24 },
+      week: { type: "rolling", unit: "day", size: 7 },
+      month: { type: "rolling", unit: "day", size: 30 },
+      lifetime: { type: "all" },
+    } as const;
+    const date = new Date(Date.UTC(2026, 0, 1, 12));
+    const bundleWith = (retention?: WindowRetention) =>
+      createBundleFromDeclarative(
+        defineDeclarativeLeaderboard({
+          retention,
+          metrics: { points: { aggregation: "sum" } },
+          timeframes,
+          defaults: { metric: "points", timeframe: "day" },
+        }),
+      );
+    const ttlFor = (bundle: ReturnType<typeof bundleWith>, token: "h" | "d" | "all") =>
+      bundle.redis.resolveWindowTtlSeconds?.({
+        timeframe: "day",
+        category: "points",
+        date,
+        key: bundle.keys.window(token, date, "points"),
+      });
+
+    const derived = bundleWith();
+    expect(ttlFor(derived, "h")).toBe(25 * 3_600);
+    expect(ttlFor(derived, "d")).toBe(31 * 86_400);
+    expect(ttlFor(derived, "all")).toBeNull();
+
+    const overridden = bundleWith({ graceSeconds: 60, ttlSeconds: { day: 90 * 86_400 } });
+    expect(ttlFor(overridden, "h")).toBe(24 * 3_600 + 60);
+    expect(ttlFor(overridden, "d")).toBe(90 * 86_400);
+
+    const disabled = bundleWith(false);
+    expect(ttlFor(disabled, "h")).toBeNull();
+  });
+
+  test("formats minute and ISO week window keys", () => {
+    const bundle = createBundleFromDeclarative(
+      defineDeclarativeLeaderboard({
+        metrics: { points: { aggregation: "sum" } },
+        timeframes: {
+          recent: { type: "rolling", unit: "minute", size: 5 },
+          weeks: { type: "rolling", unit: "week", size: 2 },
+        },
+        defaults: { metric: "points", timeframe: "recent" },
+      }),
+    );
+    // 2027-01-01 is a Friday, so it still belongs to 2026-W53.
+    const date = new Date(Date.UTC(2027, 0, 1, 9, 7, 30));
+
+    expect(bundle.redis.resolveIngestKeys?.({ timeframe: "recent", category: "points", date }))
+      .toEqual(["lb:window:min:2027-01-01:09:07:points", "lb:window:w:2026-W53:points"]);
+    expect(
+      bundle.redis.resolveBuildSourceKeys?.({ timeframe: "weeks", category: "points", date }),
+    ).toEqual(["lb:window:w:2026-W53:points", "lb:window:w:2026-W52:points"]);
+    expect(
+      bundle.redis.resolveWindowTtlSeconds?.({
+        timeframe: "recent",
+        category: "points",
+        date,
+        key: "lb:window:w:2026-W53:points",
+      }),
+    ).toBe(3 * 7 * 86_400);
+  });
+
+  test("follows DST transitions in timezone buckets", () => {
+    const bundle = createBundleFromDeclarative(
+      defineDeclarativeLeaderboard({
+        timezone: "America/New_York",
+        metrics: { points: { aggregation: "sum" } },
+        timeframes: {
+          threeHours: { type: "rolling", unit: "hour", size: 3 },
+          month: { type: "calendar", unit: "month" },
+        },
+        defaults: { metric: "points", timeframe: "threeHours" },
+      }),
+    );
+    // 06:30 UTC on 2026-11-01 is 01:30 EST, the second time clocks show 01:xx that night.
+    const date = new Date(Date.UTC(2026, 10, 1, 6, 30));
+
+    expect(
+      bundle.redis.resolveBuildSourceKeys?.({ timeframe: "threeHours", category: "points", date }),
+    ).toEqual([
+      "lb:window:h@America/New_York:2026-11-01:01:points",
+      "lb:window:h@America/New_York:2026-11-01:00:points",
+    ]);
+    expect(bundle.service.resolvePeriod?.("month", date)).toEqual({
+      start: Date.UTC(2026, 10, 1, 4),
+      end: Date.UTC(2026, 11, 1, 5),
+    });
+    expect(bundle.service.resolvePeriod?.("threeHours", date)).toBeNull();
+  });
+
+  test("ends a calendar day that starts after a DST gap at the next local midnight", () => {
+    const bundle = createBundleFromDeclarative(
+      defineDeclarativeLeaderboard({
+        timezone: "America/Santiago",
+        metrics: { points: { aggregation: "sum" } },
+        timeframes: { today: { type: "calendar", unit: "day" } },
+        defaults: { metric: "points", timeframe: "today" },
+      }),
+    );
+    // Clocks in Santiago jump from 00:00 to 01:00 on 2026-09-06, so the day starts at 01:00.
+    const date = new Date(Date.UTC(2026, 8, 6, 12));
+
+    expect(bundle.service.resolvePeriod?.("today", date)).toEqual({
+      start: Date.UTC(2026, 8, 6, 4),
+      end: Date.UTC(2026, 8, 7, 3),
+    });
+  });
 });
@@ -8,13 +8,14 @@ import {
   defineLeaderboardModel,
   metric,
 } from "../src/definition";
+import { LeaderboardConfigError } from "../src/service";
 
 describe("definition helpers", () => {
   test("derives service and redis config from one definition", () => {
     const definition = defineLeaderboard({
       categories: [
         { key: "points", aggregation: "sum" },
-        { key: "best_streak", aggregation: "max" },
+        { key: "best_streak", aggregation: "max", tieBreaker: { type: "firstToReach" } },
       ] as const,
       timeframes: ["day", "week"] as const,
       defaultCategory: "points",
@@ -38,6 +39,39 @@ describe("definition helpers", () => {
       points: "sum",
       best_streak: "max",
     });
+    expect(redisConfig.categoryTieBreakers).toEqual({
+      best_streak: { type: "firstToReach" },
+    });
+  });
+
+  test("rejects category tie-breakers naming an unknown or their own category", () => {
+    const define = (category: string) =>
+      defineLeaderboard({
+        categories: [
+          { key: "points" },
+          { key: "wins", tieBreaker: { type: "category", category } },
+        ] as Array<{ key: string; tieBreaker?: { type: "category"; category: string } }>,
+        timeframes: ["day"] as const,
+        defaultCategory: "points",
+        defaultTimeframe: "day",
+      });
+
+    expect(() => define("points")).not.toThrow();
+    expect(() => define("wins")).toThrow(LeaderboardConfigError);
+    expect(() => define("volume")).toThrow(LeaderboardConfigError);
+
+    expect(() =>
+      defineLeaderboard({
+        categories: [
+          { key: "points" },
+          // @ts-expect-error tie-breakers may only name the definition's other categories
+          { key: "wins", tieBreaker: { type: "category", category: "wins" } },
+        ],
+        timeframes: ["day"],
+        defaultCategory: "points",
+        defaultTimeframe: "day",
+      }),
+    ).toThrow(LeaderboardConfigError);
   });
 
   test("derives configs from model definition", () => {
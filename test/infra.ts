@@ -1,10 +1,7 @@
+import type { createClient } from "redis";
+
 export type RedisTestInfra = {
-  client: {
-    isOpen: boolean;
-    connect: () => Promise<void>;
-    quit: () => Promise<void>;
-    flushDb: () => Promise<unknown>;
-  };
+  client: ReturnType<typeof createClient>;
   stop: () => Promise<void>;
   clear: () => Promise<void>;
 };
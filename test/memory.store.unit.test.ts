@@ -0,0 +1,492 @@
+import { describe, expect, test } from "bun:test";
+import { createMemoryLeaderboardStore } from "../src/adapters";
+import { LeaderboardConfigError, createMemoryLb, defineLbSchema } from "../src";
+
+const hour = (n: number) => new Date(Date.UTC(2026, 0, 1, n, 0, 0));
+
+describe("memory store", () => {
+  test("honours custom ingest, build source and rank key resolvers", async () => {
+    const store = createMemoryLeaderboardStore<"points", "3h">({
+      categories: ["points"],
+      timeframes: ["3h"],
+      resolveIngestKeys: ({ category, date }) => [
+        `rolling:${category}:h${date.getUTCHours()}`,
+      ],
+      resolveBuildSourceKeys: ({ category, date }) =>
+        [0, 1, 2].map((back) => `rolling:${category}:h${date.getUTCHours() - back}`),
+      resolveRankKey: ({ timeframe, category }) => `rank:${timeframe}:${category}`,
+    });
+
+    await store.ingestWindows([["u1", { points: 10 }]], hour(1));
+    await store.ingestWindows([["u1", { points: 5 }], ["u2", { points: 8 }]], hour(3));
+    await store.ingestWindows([["u2", { points: 4 }]], hour(4));
+
+    await store.buildRankingFromWindows("3h", hour(4));
+    const top = await store.getTopRankedUsers("3h", "points", 10, true);
+
+    expect(top).toEqual([
+      { userId: "u2", score: 12, rank: 1 },
+      { userId: "u1", score: 5, rank: 2 },
+    ]);
+  });
+
+  test("matches full rebuilds when sliding sum boards incrementally", async () => {
+    const storeFor = (rebuildStrategy: "full" | "incremental") =>
+      createMemoryLeaderboardStore<"points" | "best", "3h">({
+        categories: ["points", "best"],
+        timeframes: ["3h"],
+        categoryAggregation: { best: "max" },
+        rebuildStrategy,
+        resolveIngestKeys: ({ category, date }) => [
+          `rolling:${category}:h${date.getUTCHours()}`,
+        ],
+        resolveBuildSourceKeys: ({ category, date }) =>
+          [0, 1, 2].map((back) => `rolling:${category}:h${date.getUTCHours() - back}`),
+      });
+    const full = storeFor("full");
+    const incremental = storeFor("incremental");
+
+    const batches: Array<[Parameters<typeof full.ingestWindows>[0], Date]> = [
+      [[["u1", { points: 1, best: 1 }]], hour(0)],
+      [[["u1", { points: 10, best: 4 }], ["u2", { points: 3, best: 9 }]], hour(1)],
+      [[["u2", { points: 4, best: 1 }]], hour(2)],
+      [[["u1", { points: -2, best: 6 }], ["u3", { points: 7, best: 2 }]], hour(3)],
+      [[["u3", { points: 1, best: 1 }, hour(2)]], hour(4)],
+      [[["u2", { points: 5, best: 5 }]], hour(5)],
+    ];
+    for (const [entries, date] of batches) {
+      for (const store of [full, incremental]) {
+        await store.ingestWindows(entries, date);
+        // Builds mid-bucket and again after the last ingest of each hour.
+        await store.buildRankingFromWindows("3h", date);
+      }
+      for (const store of [full, incremental]) {
+        await store.ingestWindows([["u4", { points: 1, best: 1 }]], date);
+        await store.buildRankingFromWindows("3h", date);
+      }
+
+      for (const category of ["points", "best"] as const) {
+        expect(await incremental.getTopRankedUsers("3h", category, 10, true)).toEqual(
+          await full.getTopRankedUsers("3h", category, 10, true),
+        );
+      }
+    }
+    // u1's points from h0 and h1 have slid out of the window again.
+    expect(await incremental.getUserRank("u1", "3h", "points", true)).toMatchObject({ score: -2 });
+  });
+
+  test("keeps members whose closed buckets net to zero in incremental builds", async () => {
+    const storeFor = (rebuildStrategy: "full" | "incremental") =>
+      createMemoryLeaderboardStore<"points", "3h">({
+        categories: ["points"],
+        timeframes: ["3h"],
+        rebuildStrategy,
+        resolveIngestKeys: ({ category, date }) => [
+          `rolling:${category}:h${date.getUTCHours()}`,
+        ],
+        resolveBuildSourceKeys: ({ category, date }) =>
+          [0, 1, 2].map((back) => `rolling:${category}:h${date.getUTCHours() - back}`),
+      });
+    const full = storeFor("full");
+    const incremental = storeFor("incremental");
+
+    for (const store of [full, incremental]) {
+      await store.ingestWindows([["u3", { points: 1 }]], hour(1));
+      await store.ingestWindows([["u1", { points: 1 }]], hour(2));
+      await store.buildRankingFromWindows("3h", hour(3));
+      // h1 slides out and u1's closed buckets now sum to zero.
+      await store.ingestWindows([["u1", { points: -1 }], ["u2", { points: 1 }]], hour(3));
+      await store.buildRankingFromWindows("3h", hour(4));
+    }
+
+    expect(await full.getTopRankedUsers("3h", "points", 10, true)).toEqual([
+      { userId: "u2", score: 1, rank: 1 },
+      { userId: "u1", score: 0, rank: 2 },
+    ]);
+    expect(await incremental.getTopRankedUsers("3h", "points", 10, true)).toEqual(
+      await full.getTopRankedUsers("3h", "points", 10, true),
+    );
+    expect(await incremental.countRanked("3h", "points")).toBe(2);
+  });
+
+  test("falls back to a full union after late writes to folded-in buckets", async () => {
+    const storeFor = (rebuildStrategy: "full" | "incremental") =>
+      createMemoryLeaderboardStore<"points", "3h">({
+        categories: ["points"],
+        timeframes: ["3h"],
+        rebuildStrategy,
+        resolveIngestKeys: ({ category, date }) => [
+          `rolling:${category}:h${date.getUTCHours()}`,
+        ],
+        resolveBuildSourceKeys: ({ category, date }) =>
+          [0, 1, 2].map((back) => `rolling:${category}:h${date.getUTCHours() - back}`),
+      });
+    const full = storeFor("full");
+    const incremental = storeFor("incremental");
+
+    for (const store of [full, incremental]) {
+      await store.ingestWindows([["u1", { points: 1 }]], hour(1));
+      await store.buildRankingFromWindows("3h", hour(2));
+      await store.buildRankingFromWindows("3h", hour(3));
+      // A past-dated batch into h1, which the h3 build already folded into the base.
+      await store.ingestWindows([["u1", { points: 5 }]], hour(1));
+      await store.buildRankingFromWindows("3h", hour(3));
+    }
+
+    expect(await incremental.getTopRankedUsers("3h", "points", 10, true)).toEqual(
+      await full.getTopRankedUsers("3h", "points", 10, true),
+    );
+    expect(await incremental.getUserRank("u1", "3h", "points", true)).toMatchObject({ score: 6 });
+  });
+
+  test("drops buckets that fall out of a rolling schema timeframe", async () => {
+    const schema = defineLbSchema({
+      timeframes: {
+        day: { type: "rolling", unit: "hour", size: 24 },
+        lifetime: { type: "all" },
+      },
+      leaderboards: {
+        points: { aggregation: "sum", timeframes: ["day", "lifetime"] },
+      },
+      defaults: {
+        leaderboard: "points",
+        timeframe: "day",
+      },
+    });
+
+    const runtime = createMemoryLb(schema);
+
+    await runtime.write.ingest([["u1", { points: 50 }]], hour(0));
+    await runtime.write.ingest([["u2", { points: 20 }]], hour(30));
+    await runtime.write.rebuild(["day", "lifetime"], hour(30));
+
+    const day = await runtime.query.list({ leaderboard: "points", timeframe: "day" });
+    expect(day.rows.map((row) => [row.userId, row.score])).toEqual([["u2", 20]]);
+
+    const lifetime = await runtime.query.list({
+      leaderboard: "points",
+      timeframe: "lifetime",
+    });
+    expect(lifetime.rows.map((row) => [row.userId, row.score])).toEqual([
+      ["u1", 50],
+      ["u2", 20],
+    ]);
+  });
+
+  test("applies max/min aggregation at ingest and when unioning windows", async () => {
+    const store = createMemoryLeaderboardStore<"best" | "fastest" | "points", "3h">({
+      categories: ["best", "fastest", "points"],
+      timeframes: ["3h"],
+      categoryAggregation: { best: "max", fastest: "min" },
+      resolveIngestKeys: ({ category, date }) => [
+        `rolling:${category}:h${date.getUTCHours()}`,
+      ],
+      resolveBuildSourceKeys: ({ category }) =>
+        [0, 1, 2].map((h) => `rolling:${category}:h${h}`),
+    });
+
+    await store.ingestWindows([["u1", { best: 20, fastest: 30, points: 1 }]], hour(0));
+    await store.ingestWindows([["u1", { best: 8, fastest: 45, points: 2 }]], hour(0));
+    await store.ingestWindows([["u1", { best: 12, fastest: 25, points: 3 }]], hour(1));
+    await store.ingestWindows([["u1", { best: 40, fastest: 50, points: 4 }]], hour(2));
+
+    await store.buildRankingFromWindows("3h", hour(2));
+    const scores = await store.getScoresBatch("3h", ["u1"]);
+
+    expect(scores.get("u1")).toEqual({ best: 40, fastest: 25, points: 10 });
+  });
+
+  test("expires window keys using resolveWindowTtlSeconds", async () => {
+    const store = createMemoryLeaderboardStore<"points", "day">({
+      categories: ["points"],
+      timeframes: ["day"],
+      resolveWindowTtlSeconds: () => 60,
+    });
+
+    const realNow = Date.now;
+    try {
+      const start = realNow();
+      Date.now = () => start;
+      await store.ingestWindows([["u1", { points: 10 }]]);
+
+      Date.now = () => start + 61_000;
+      await store.buildRankingFromWindows("day");
+      expect(await store.getTopRankedUsers("day", "points", 10, true)).toBeNull();
+    } finally {
+      Date.now = realNow;
+    }
+  });
+
+  test("skips entries whose eventId was already ingested", async () => {
+    const store = createMemoryLeaderboardStore<"points", "day">({
+      categories: ["points"],
+      timeframes: ["day"],
+      eventIdTtlSeconds: 60,
+    });
+
+    const realNow = Date.now;
+    try {
+      const start = realNow();
+      Date.now = () => start;
+      expect(
+        await store.ingestWindows([
+          ["u1", { points: 10 }, { eventId: "e1" }],
+          ["u1", { points: 10 }, { eventId: "e1" }],
+          ["u2", { points: 5 }],
+        ]),
+      ).toEqual({ applied: 2, skipped: 1 });
+      expect(await store.ingestWindows([["u1", { points: 10 }, { eventId: "e1" }]])).toEqual({
+        applied: 0,
+        skipped: 1,
+      });
+
+      Date.now = () => start + 61_000;
+      expect(await store.ingestWindows([["u1", { points: 1 }, { eventId: "e1" }]])).toEqual({
+        applied: 1,
+        skipped: 0,
+      });
+      await store.buildRankingFromWindows("day");
+      expect(await store.getScoresBatch("day", ["u1"])).toEqual(new Map([["u1", { points: 11 }]]));
+    } finally {
+      Date.now = realNow;
+    }
+  });
+
+  test("breaks ties by whoever reached the score first", async () => {
+    const store = createMemoryLeaderboardStore<"points" | "best", "day">({
+      categories: ["points", "best"],
+      timeframes: ["day"],
+      categoryAggregation: { best: "max" },
+      categoryTieBreakers: {
+        points: { type: "firstToReach" },
+        best: { type: "firstToReach" },
+      },
+    });
+
+    await store.ingestWindows([["u1", { points: 10, best: 30 }]], hour(1));
+    await store.ingestWindows([["u3", { points: 6, best: 30 }]], hour(2));
+    await store.ingestWindows([["u3", { points: 4, best: 20 }]], hour(3));
+    await store.ingestWindows([["u2", { points: 10, best: 30 }]], hour(4));
+    await store.buildRankingFromWindows("day");
+
+    const points = await store.getTopRankedUsers("day", "points", 10, true);
+    expect(points?.map((row) => row.userId)).toEqual(["u1", "u3", "u2"]);
+
+    // A lower max does not move the reach time forward.
+    const best = await store.getTopRankedUsers("day", "best", 10, true, {
+      rankStrategy: "competition",
+    });
+    expect(best).toEqual([
+      { userId: "u1", score: 30, rank: 1 },
+      { userId: "u3", score: 30, rank: 2 },
+      { userId: "u2", score: 30, rank: 3 },
+    ]);
+  });
+
+  test("takes max reach times from the bucket holding the best score", async () => {
+    const store = createMemoryLeaderboardStore<"best", "3h">({
+      categories: ["best"],
+      timeframes: ["3h"],
+      categoryAggregation: { best: "max" },
+      categoryTieBreakers: { best: { type: "firstToReach" } },
+      resolveIngestKeys: ({ category, date }) => [`rolling:${category}:h${date.getUTCHours()}`],
+      resolveBuildSourceKeys: ({ category }) =>
+        [0, 1, 2].map((hour) => `rolling:${category}:h${hour}`),
+    });
+
+    await store.ingestWindows([["alice", { best: 1 }]], hour(0));
+    await store.ingestWindows([["bob", { best: 100 }]], hour(1));
+    await store.ingestWindows([["alice", { best: 100 }]], hour(2));
+    await store.buildRankingFromWindows("3h", hour(2));
+
+    const best = await store.getTopRankedUsers("3h", "best", 10, true, {
+      rankStrategy: "competition",
+    });
+    expect(best).toEqual([
+      { userId: "bob", score: 100, rank: 1 },
+      { userId: "alice", score: 100, rank: 2 },
+    ]);
+  });
+
+  test("breaks ties with a secondary category", async () => {
+    const store = createMemoryLeaderboardStore<"points" | "wins", "day">({
+      categories: ["points", "wins"],
+      timeframes: ["day"],
+      categoryTieBreakers: { points: { type: "category", category: "wins" } },
+    });
+
+    await store.ingestWindows([
+      ["u1", { points: 10, wins: 1 }],
+      ["u2", { points: 10, wins: 3 }],
+      ["u3", { points: 10, wins: 1 }],
+      ["u4", { points: 10, wins: 0 }],
+    ]);
+    await store.buildRankingFromWindows("day");
+
+    const top = await store.getTopRankedUsers("day", "points", 10, true, {
+      rankStrategy: "dense",
+    });
+    expect(top).toEqual([
+      { userId: "u2", score: 10, rank: 1 },
+      { userId: "u3", score: 10, rank: 2 },
+      { userId: "u1", score: 10, rank: 2 },
+      { userId: "u4", score: 10, rank: 3 },
+    ]);
+    expect(await store.getUserRank("u4", "day", "points", true)).toEqual({
+      userId: "u4",
+      score: 10,
+      rank: 4,
+    });
+  });
+
+  test("removes a user from historical buckets and resets boards", async () => {
+    const schema = defineLbSchema({
+      timeframes: {
+        day: { type: "rolling", unit: "hour", size: 24 },
+        lifetime: { type: "all" },
+      },
+      leaderboards: {
+        points: { aggregation: "sum", timeframes: ["day", "lifetime"] },
+        wins: { aggregation: "sum", timeframes: ["lifetime"] },
+      },
+      defaults: {
+        leaderboard: "points",
+        timeframe: "day",
+      },
+    });
+
+    const runtime = createMemoryLb(schema);
+    const ids = async (
+      timeframe: "day" | "lifetime",
+      leaderboard: "points" | "wins" = "points",
+    ) => (await runtime.query.list({ leaderboard, timeframe })).rows.map((row) => row.userId);
+
+    await runtime.write.ingest([["cheater", { points: 90, wins: 9 }]], hour(0));
+    await runtime.write.ingest(
+      [
+        ["cheater", { points: 10, wins: 1 }],
+        ["u1", { points: 5, wins: 1 }],
+      ],
+      hour(2),
+    );
+    await runtime.write.rebuild(["day", "lifetime"], hour(2));
+
+    await runtime.write.removeUser("cheater", { categories: ["points"] });
+    expect(await ids("day")).toEqual(["u1"]);
+    expect(await ids("lifetime", "wins")).toEqual(["cheater", "u1"]);
+
+    // Rebuilding from the scrubbed buckets must not bring the user back.
+    await runtime.write.rebuild(["day", "lifetime"], hour(2));
+    expect(await ids("lifetime")).toEqual(["u1"]);
+
+    await runtime.write.resetBoard("points", "lifetime", hour(2));
+    await runtime.write.rebuild(["day", "lifetime"], hour(2));
+    expect(await ids("lifetime")).toEqual([]);
+    expect(await ids("day")).toEqual(["u1"]);
+  });
+
+  test("scrubs every bucket a timeframe was built from on filtered removal", async () => {
+    // Each timeframe reads its own series, so a scoped removal may clear it.
+    const bucket = (timeframe: string, category: string, date: Date) =>
+      `rolling:${timeframe}:${category}:${date.toISOString().slice(0, 13)}`;
+    const store = createMemoryLeaderboardStore<"points", "3h" | "1h">({
+      categories: ["points"],
+      timeframes: ["3h", "1h"],
+      resolveIngestKeys: ({ timeframe, category, date }) => [bucket(timeframe, category, date)],
+      resolveBuildSourceKeys: ({ timeframe, category, date }) =>
+        (timeframe === "3h" ? [0, 1, 2] : [0]).map((back) =>
+          bucket(timeframe, category, new Date(date.getTime() - back * 3_600_000)),
+        ),
+    });
+
+    await store.ingestWindows([["u1", { points: 4 }], ["u2", { points: 2 }]], hour(1));
+    await store.ingestWindows([["u1", { points: 3 }]], hour(5));
+    await store.buildRankingFromWindows("3h", hour(2));
+    await store.buildRankingFromWindows("1h", hour(5));
+
+    // Neither build's sources are current any more, so only the recorded ones reach them.
+    await store.removeUser("u1", { timeframes: ["3h"] });
+    await store.buildRankingFromWindows("3h", hour(2));
+    await store.buildRankingFromWindows("1h", hour(5));
+
+    expect(await store.getTopRankedUsers("3h", "points", 10, true)).toEqual([
+      { userId: "u2", score: 2, rank: 1 },
+    ]);
+    expect(await store.getTopRankedUsers("1h", "points", 10, true)).toEqual([
+      { userId: "u1", score: 3, rank: 1 },
+    ]);
+  });
+
+  test("refuses scoped removals and resets of buckets another timeframe reads", async () => {
+    const bucket = (category: string, date: Date) =>
+      `rolling:${category}:${date.toISOString().slice(0, 13)}`;
+    const store = createMemoryLeaderboardStore<"points", "3h" | "1h">({
+      categories: ["points"],
+      timeframes: ["3h", "1h"],
+      resolveIngestKeys: ({ timeframe, category, date }) =>
+        timeframe === "3h" ? [bucket(category, date)] : [],
+      resolveBuildSourceKeys: ({ timeframe, category, date }) =>
+        (timeframe === "3h" ? [0, 1, 2] : [0]).map((back) =>
+          bucket(category, new Date(date.getTime() - back * 3_600_000)),
+        ),
+    });
+
+    await store.ingestWindows([["u1", { points: 4 }]], hour(1));
+    await store.ingestWindows([["u1", { points: 3 }], ["u2", { points: 2 }]], hour(2));
+    await store.buildRankingFromWindows("3h", hour(2));
+    await store.buildRankingFromWindows("1h", hour(2));
+
+    await expect(store.resetBoard("points", "1h", hour(2))).rejects.toThrow(
+      LeaderboardConfigError,
+    );
+    await expect(store.removeUser("u1", { timeframes: ["1h"] })).rejects.toThrow(
+      LeaderboardConfigError,
+    );
+    await store.buildRankingFromWindows("3h", hour(2));
+    expect(await store.getTopRankedUsers("3h", "points", 10, true)).toEqual([
+      { userId: "u1", score: 7, rank: 1 },
+      { userId: "u2", score: 2, rank: 2 },
+    ]);
+
+    // Naming every timeframe that reads the buckets is allowed.
+    await store.removeUser("u1", { timeframes: ["1h", "3h"] });
+    await store.buildRankingFromWindows("3h", hour(2));
+    expect(await store.getTopRankedUsers("3h", "points", 10, true)).toEqual([
+      { userId: "u2", score: 2, rank: 1 },
+    ]);
+  });
+
+  test("expires schema window buckets after their derived retention", async () => {
+    const schema = defineLbSchema({
+      retention: { graceSeconds: 0 },
+      timeframes: {
+        day: { type: "rolling", unit: "hour", size: 2 },
+        lifetime: { type: "all" },
+      },
+      leaderboards: {
+        points: { aggregation: "sum", timeframes: ["day", "lifetime"] },
+      },
+      defaults: {
+        leaderboard: "points",
+        timeframe: "day",
+      },
+    });
+
+    const runtime = createMemoryLb(schema);
+    const realNow = Date.now;
+    try {
+      const start = realNow();
+      Date.now = () => start;
+      await runtime.write.ingest([["u1", { points: 10 }]], hour(1));
+
+      Date.now = () => start + 2 * 3_600_000 + 1_000;
+      await runtime.write.rebuild(["day", "lifetime"], hour(1));
+      const day = await runtime.query.list({ leaderboard: "points", timeframe: "day" });
+      const lifetime = await runtime.query.list({ leaderboard: "points", timeframe: "lifetime" });
+      expect(day.rows).toEqual([]);
+      expect(lifetime.rows.map((row) => row.userId)).toEqual(["u1"]);
+    } finally {
+      Date.now = realNow;
+    }
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, test } from "bun:test";
+import { createRedisProfileStore } from "../src/adapters";
+
+function fakeHashClient() {
+  const hashes = new Map<string, Map<string, string>>();
+  const hash = (key: string) => {
+    let fields = hashes.get(key);
+    if (!fields) {
+      fields = new Map();
+      hashes.set(key, fields);
+    }
+    return fields;
+  };
+
+  return {
+    hashes,
+    async hmGet(key: string, fields: string[]) {
+      return fields.map((field) => hashes.get(key)?.get(field) ?? null);
+    },
+    async hGet(key: string, field: string) {
+      return hashes.get(key)?.get(field) ?? null;
+    },
+    async hSet(key: string, value: Record<string, string>) {
+      const fields = hash(key);
+      let added = 0;
+      for (const [field, fieldValue] of Object.entries(value)) {
+        if (!fields.has(field)) added += 1;
+        fields.set(field, fieldValue);
+      }
+      return added;
+    },
+  };
+}
+
+const keys = {
+  names: () => "lb:names",
+  metadata: (timeframe: "day" | "week") => `lb:meta:${timeframe}`,
+};
+
+describe("RedisProfileStore", () => {
+  test("reads usernames for the requested users only", async () => {
+    const client = fakeHashClient();
+    const profiles = createRedisProfileStore(client, keys);
+
+    await profiles.setUsername("u1", "ada");
+    await profiles.setUsername("u2", "grace");
+
+    expect(await profiles.getUsernames(["u1", "u3"])).toEqual(new Map([["u1", "ada"]]));
+    expect(await profiles.getUsernames([])).toEqual(new Map());
+  });
+
+  test("merges metadata per timeframe and skips values it cannot parse", async () => {
+    const client = fakeHashClient();
+    const profiles = createRedisProfileStore<"day" | "week", { tier?: string; avatar?: string }>(
+      client,
+      keys,
+    );
+
+    expect(await profiles.mergeMetadata("day", "u1", { tier: "gold" })).toEqual({ tier: "gold" });
+    expect(await profiles.mergeMetadata("day", "u1", { avatar: "a.png" })).toEqual({
+      tier: "gold",
+      avatar: "a.png",
+    });
+    await client.hSet("lb:meta:day", { u2: "not json", u3: "42" });
+
+    expect(client.hashes.get("lb:meta:day")?.get("u1")).toBe('{"tier":"gold","avatar":"a.png"}');
+    expect(await profiles.getMetadata("day", ["u1", "u2", "u3"])).toEqual(
+      new Map([["u1", { tier: "gold", avatar: "a.png" }]]),
+    );
+    expect(await profiles.getMetadata("week", ["u1"])).toEqual(new Map());
+    expect(await profiles.mergeMetadata("day", "u2", { tier: "silver" })).toEqual({
+      tier: "silver",
+    });
+  });
+
+  test("retries a metadata merge that raced another writer", async () => {
+    const client = fakeHashClient();
+    let raced = false;
+    const profiles = createRedisProfileStore<"day", { tier?: string; avatar?: string }>(
+      {
+        ...client,
+        async hGet(key, field) {
+          const current = await client.hGet(key, field);
+          if (!raced) {
+            // Another process merges its field between this read and the write.
+            raced = true;
+            await client.hSet(key, { [field]: JSON.stringify({ avatar: "a.png" }) });
+          }
+          return current;
+        },
+        // Stands in for the compare-and-set script.
+        async eval(_script, { keys: [key = ""], arguments: [field = "", expected, next = ""] }) {
+          if (((await client.hGet(key, field)) ?? "") !== expected) return 0;
+          await client.hSet(key, { [field]: next });
+          return 1;
+        },
+      },
+      keys,
+    );
+
+    expect(await profiles.mergeMetadata("day", "u1", { tier: "gold" })).toEqual({
+      avatar: "a.png",
+      tier: "gold",
+    });
+    expect(client.hashes.get("lb:meta:day")?.get("u1")).toBe('{"avatar":"a.png","tier":"gold"}');
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, expect, test } from "bun:test";
+import {
+  LeaderboardConfigError,
+  createMemoryLb,
+  createRebuildScheduler,
+  defineLbSchema,
+  lbBoard,
+  lbTimeframe,
+} from "../src";
+import type { LoggerPort } from "../src";
+
+const flush = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+function fakeClock(start: number) {
+  let now = start;
+  let nextId = 0;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+
+  return {
+    timers,
+    clock: {
+      now: () => now,
+      setTimeout: (callback: () => void, ms: number) => {
+        timers.set(++nextId, { at: now + ms, callback });
+        return nextId;
+      },
+      clearTimeout: (handle: unknown) => {
+        timers.delete(handle as number);
+      },
+    },
+    async advance(ms: number) {
+      const target = now + ms;
+      for (;;) {
+        const due = [...timers.entries()]
+          .filter(([, timer]) => timer.at <= target)
+          .sort(([, a], [, b]) => a.at - b.at)[0];
+        if (!due) break;
+        timers.delete(due[0]);
+        now = due[1].at;
+        due[1].callback();
+        await flush();
+      }
+      now = target;
+      await flush();
+    },
+  };
+}
+
+function recordingLogger() {
+  const messages: string[] = [];
+  const logger: LoggerPort = {
+    debug: (message) => messages.push(`debug:${message}`),
+    info: (message) => messages.push(`info:${message}`),
+    warn: (message) => messages.push(`warn:${message}`),
+    error: (message) => messages.push(`error:${message}`),
+  };
+  return { messages, logger };
+}
+
+describe("rebuild scheduler", () => {
+  test("derives each timeframe's cadence from its spec", () => {
+    const scheduler = createRebuildScheduler({
+      timeframes: {
+        live: lbTimeframe.rolling("minute", 15),
+        day: lbTimeframe.rolling("hour", 24),
+        month: lbTimeframe.calendar("month"),
+        lifetime: lbTimeframe.all(),
+        realtime: lbTimeframe.all({ realtime: true }),
+      },
+      rebuild: async () => {},
+      intervalMs: { month: 600_000 },
+    });
+
+    expect(scheduler.intervals).toEqual({
+      live: 10_000,
+      day: 60_000,
+      month: 600_000,
+      lifetime: 300_000,
+    });
+  });
+
+  test("rejects intervals that are not positive finite numbers", () => {
+    for (const interval of [0, -1_000, Number.NaN, Number.POSITIVE_INFINITY]) {
+      expect(() =>
+        createRebuildScheduler({
+          timeframes: { day: lbTimeframe.rolling("hour", 24) },
+          rebuild: async () => {},
+          intervalMs: { day: interval },
+        }),
+      ).toThrow(LeaderboardConfigError);
+    }
+  });
+
+  test("rebuilds a runtime's timeframes on aligned ticks until stopped", async () => {
+    const runtime = createMemoryLb(
+      defineLbSchema({
+        timeframes: { day: lbTimeframe.rolling("hour", 24) },
+        leaderboards: { points: lbBoard.sum("day") },
+        defaults: { leaderboard: "points", timeframe: "day" },
+      }),
+    );
+    const time = fakeClock(Date.UTC(2026, 0, 1, 12, 0, 30));
+    const { messages, logger } = recordingLogger();
+    const scheduler = runtime.schedule({ clock: time.clock, logger });
+    const ids = async () =>
+      (await runtime.query.list({ leaderboard: "points", timeframe: "day" })).rows.map(
+        (row) => row.userId,
+      );
+
+    scheduler.start();
+    await flush();
+    expect(messages).toEqual(["info:Scheduled leaderboard rebuild finished"]);
+
+    await runtime.write.ingest([["u1", { points: 3 }]], new Date(time.clock.now()));
+    expect(await ids()).toEqual([]);
+    // The next run is due at 12:01:00, not 60s after start.
+    await time.advance(29_000);
+    expect(await ids()).toEqual([]);
+    await time.advance(1_000);
+    expect(await ids()).toEqual(["u1"]);
+    await expect(runtime.store.getBuildInfo("day")).resolves.toMatchObject({
+      builtAt: expect.any(Number),
+    });
+
+    await scheduler.stop();
+    expect(time.timers.size).toBe(0);
+    await time.advance(120_000);
+    expect(messages).toHaveLength(2);
+  });
+
+  test("skips a run while the previous one is still going", async () => {
+    const time = fakeClock(0);
+    const { messages, logger } = recordingLogger();
+    const releases: Array<() => void> = [];
+    const calls: Array<[string[], number]> = [];
+    const scheduler = createRebuildScheduler({
+      timeframes: { hour: lbTimeframe.rolling("minute", 60) },
+      rebuild: (timeframes, _date, ttlSeconds) => {
+        calls.push([timeframes, ttlSeconds]);
+        return new Promise<void>((resolve) => releases.push(resolve));
+      },
+      logger,
+      clock: time.clock,
+    });
+
+    scheduler.start();
+    await time.advance(10_000);
+    expect(calls).toEqual([[["hour"], 30]]);
+    expect(messages).toEqual(["warn:Skipped scheduled rebuild; previous run still going"]);
+
+    releases.shift()?.();
+    await flush();
+    await time.advance(10_000);
+    expect(calls).toHaveLength(2);
+
+    const stopped = scheduler.stop();
+    releases.shift()?.();
+    await stopped;
+  });
+
+  test("lets one instance claim each run and releases the claim on failure", async () => {
+    const time = fakeClock(0);
+    const locks = new Map<string, string>();
+    const lock = {
+      async acquireLock(name: string) {
+        if (locks.has(name)) return null;
+        locks.set(name, "token");
+        return "token";
+      },
+      async releaseLock(name: string) {
+        locks.delete(name);
+      },
+    };
+    const { messages, logger } = recordingLogger();
+    let failNext = true;
+    let rebuilds = 0;
+    const instance = () =>
+      createRebuildScheduler({
+        timeframes: { lifetime: lbTimeframe.all() },
+        rebuild: async () => {
+          rebuilds += 1;
+          if (failNext) {
+            failNext = false;
+            throw new Error("redis unavailable");
+          }
+        },
+        lock,
+        logger,
+        clock: time.clock,
+      });
+    const first = instance();
+    const second = instance();
+
+    first.start();
+    await flush();
+    expect(messages).toEqual(["error:Scheduled leaderboard rebuild failed"]);
+    expect(locks.size).toBe(0);
+
+    second.start();
+    await flush();
+    expect(rebuilds).toBe(2);
+    expect(locks.has("schedule:lifetime")).toBe(true);
+
+    // The claim lives for half a cadence, so it has lapsed when both instances tick at 300s.
+    locks.clear();
+    await time.advance(300_000);
+    expect(rebuilds).toBe(3);
+    expect(messages.filter((message) => message.startsWith("debug:"))).toHaveLength(1);
+
+    await Promise.all([first.stop(), second.stop()]);
+  });
+});
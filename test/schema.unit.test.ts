@@ -1,8 +1,13 @@
 import { describe, expect, test } from "bun:test";
 import {
+  LeaderboardConfigError,
   LeaderboardQueryError,
   boardKeys,
+  bundleFromSchema,
+  createLbQuery,
+  createLeaderboardService,
   createMemoryLb,
+  createMemoryLeaderboardStore,
   lbSchema,
   defineLbSchema,
   lbBoard,
@@ -45,10 +50,11 @@ describe("schema + query api", () => {
       limit: 2,
     });
 
-    expect(top.map((row) => row.userId)).toEqual(["u2", "u1"]);
-    expect(top[0]?.score).toBe(30);
+    expect(top.rows.map((row) => row.userId)).toEqual(["u2", "u1"]);
+    expect(top.rows[0]?.score).toBe(30);
     // best_streak does not support "day", so hydration should be null for that board.
-    expect(top[0]?.scores.best_streak).toBeNull();
+    expect(top.rows[0]?.scores.best_streak).toBeNull();
+    expect(top.hasMore).toBeFalse();
   });
 
   test("gets a specific user rank + score + other leaderboard scores", async () => {
@@ -86,6 +92,630 @@ describe("schema + query api", () => {
     expect(user?.score).toBe(15);
     expect(user?.scores.profit).toBe(15);
     expect(user?.scores.best_streak).toBeNull();
+    expect(user?.percentile).toBe(100);
+  });
+
+  test("lists the users directly above and below a user", async () => {
+    const schema = defineLbSchema({
+      timeframes: {
+        lifetime: { type: "all" },
+      },
+      leaderboards: {
+        profit: { aggregation: "sum", timeframes: ["lifetime"] },
+      },
+      defaults: {
+        leaderboard: "profit",
+        timeframe: "lifetime",
+      },
+    });
+
+    const runtime = createMemoryLb(schema);
+
+    await runtime.write.ingest([
+      ["u1", { profit: 40 }],
+      ["u2", { profit: 30 }],
+      ["u3", { profit: 20 }],
+      ["u4", { profit: 10 }],
+    ]);
+    await runtime.write.rebuild(["lifetime"]);
+
+    const rows = await runtime.query.around({
+      leaderboard: "profit",
+      timeframe: "lifetime",
+      userId: "u3",
+      above: 1,
+      below: 1,
+    });
+
+    expect(rows.map((row) => [row.userId, row.rank, row.score])).toEqual([
+      ["u2", 2, 30],
+      ["u3", 3, 20],
+      ["u4", 4, 10],
+    ]);
+  });
+
+  test("pages through a list with offsets and cursors", async () => {
+    const schema = defineLbSchema({
+      timeframes: {
+        lifetime: { type: "all" },
+      },
+      leaderboards: {
+        profit: { aggregation: "sum", timeframes: ["lifetime"] },
+        wagered: { aggregation: "sum", timeframes: ["lifetime"] },
+      },
+      defaults: {
+        leaderboard: "profit",
+        timeframe: "lifetime",
+      },
+    });
+
+    const runtime = createMemoryLb(schema);
+    await runtime.write.ingest(
+      Array.from({ length: 5 }).map((_, i) => [`u${i + 1}`, { profit: 50 - i, wagered: i }]),
+    );
+    await runtime.write.rebuild(["lifetime"]);
+
+    const first = await runtime.query.list({
+      leaderboard: "profit",
+      timeframe: "lifetime",
+      limit: 2,
+    });
+    expect(first.rows.map((row) => row.userId)).toEqual(["u1", "u2"]);
+    expect(first.hasMore).toBeTrue();
+    expect(first.total).toBe(5);
+
+    const second = await runtime.query.list({
+      leaderboard: "profit",
+      timeframe: "lifetime",
+      limit: 2,
+      cursor: first.nextCursor,
+    });
+    expect(second.rows.map((row) => [row.userId, row.rank])).toEqual([
+      ["u3", 3],
+      ["u4", 4],
+    ]);
+
+    const last = await runtime.query.list({
+      leaderboard: "profit",
+      timeframe: "lifetime",
+      limit: 2,
+      offset: 4,
+    });
+    expect(last.rows.map((row) => row.userId)).toEqual(["u5"]);
+    expect(last.hasMore).toBeFalse();
+    expect(last.nextCursor).toBeNull();
+
+    await expect(
+      runtime.query.list({
+        leaderboard: "wagered",
+        timeframe: "lifetime",
+        cursor: first.nextCursor,
+      }),
+    ).rejects.toThrow(LeaderboardQueryError);
+  });
+
+  test("applies the schema rankStrategy to list and user queries", async () => {
+    const schema = lbSchema({
+      rankStrategy: "competition",
+      timeframes: {
+        lifetime: lbTimeframe.all(),
+      },
+    })
+      .leaderboards({
+        profit: lbBoard.sum("lifetime"),
+      })
+      .defaults({
+        leaderboard: "profit",
+        timeframe: "lifetime",
+        sort: "asc",
+      });
+
+    const runtime = createMemoryLb(schema);
+    await runtime.write.ingest([
+      ["u1", { profit: 5 }],
+      ["u2", { profit: 5 }],
+      ["u3", { profit: 9 }],
+    ]);
+    await runtime.write.rebuild(["lifetime"]);
+
+    const list = await runtime.query.list({ leaderboard: "profit", timeframe: "lifetime" });
+    expect(list.rows.map((row) => [row.userId, row.rank])).toEqual([
+      ["u1", 1],
+      ["u2", 1],
+      ["u3", 3],
+    ]);
+
+    const user = await runtime.query.user({
+      leaderboard: "profit",
+      timeframe: "lifetime",
+      userId: "u2",
+    });
+    expect(user?.rank).toBe(1);
+  });
+
+  test("orders tied users with the board tieBreaker", async () => {
+    const hour = (n: number) => new Date(Date.UTC(2026, 0, 1, n, 0, 0));
+    const schema = lbSchema({
+      timeframes: {
+        day: lbTimeframe.rolling("hour", 24),
+      },
+    })
+      .leaderboards({
+        points: { ...lbBoard.sum("day"), tieBreaker: { type: "firstToReach" } },
+        wins: lbBoard.sum("day"),
+      })
+      .defaults({
+        leaderboard: "points",
+        timeframe: "day",
+      });
+
+    const runtime = createMemoryLb(schema);
+    await runtime.write.ingest([["u2", { points: 5, wins: 0 }]], hour(0));
+    await runtime.write.ingest([["u1", { points: 10, wins: 0 }]], hour(1));
+    await runtime.write.ingest([["u2", { points: 5, wins: 0 }]], hour(2));
+    await runtime.write.ingest([["u3", { points: 10, wins: 0 }]], hour(3));
+    await runtime.write.rebuild(["day"], hour(3));
+
+    const first = await runtime.query.list({ leaderboard: "points", timeframe: "day", limit: 2 });
+    const second = await runtime.query.list({
+      leaderboard: "points",
+      timeframe: "day",
+      limit: 2,
+      cursor: first.nextCursor,
+    });
+    expect([...first.rows, ...second.rows].map((row) => row.userId)).toEqual([
+      "u1",
+      "u2",
+      "u3",
+    ]);
+  });
+
+  test("rejects a category tieBreaker that does not name another board", () => {
+    expect(() =>
+      defineLbSchema({
+        timeframes: { lifetime: { type: "all" } },
+        leaderboards: {
+          points: {
+            timeframes: ["lifetime"],
+            tieBreaker: { type: "category", category: "points" },
+          },
+        },
+        defaults: { leaderboard: "points", timeframe: "lifetime" },
+      }),
+    ).toThrow(LeaderboardConfigError);
+  });
+
+  test("rebuilds expired rank keys on read with readThrough", async () => {
+    const schema = lbSchema({
+      readThrough: true,
+      timeframes: {
+        lifetime: lbTimeframe.all(),
+      },
+    })
+      .leaderboards({
+        profit: lbBoard.sum("lifetime"),
+      })
+      .defaults({
+        leaderboard: "profit",
+        timeframe: "lifetime",
+      });
+
+    const runtime = createMemoryLb(schema);
+    await runtime.write.ingest([["u1", { profit: 5 }]]);
+
+    const list = await runtime.query.list({ leaderboard: "profit", timeframe: "lifetime" });
+    expect(list.rows.map((row) => row.userId)).toEqual(["u1"]);
+  });
+
+  test("logs failed read-through rebuilds from createLbQuery", async () => {
+    const schema = defineLbSchema({
+      readThrough: true,
+      timeframes: { lifetime: lbTimeframe.all() },
+      leaderboards: { profit: lbBoard.sum("lifetime") },
+      defaults: { leaderboard: "profit", timeframe: "lifetime" },
+    });
+    const store = Object.assign(
+      Object.create(createMemoryLeaderboardStore(bundleFromSchema(schema).redis)),
+      {
+        buildRankingFromWindows: async () => {
+          throw new Error("redis down");
+        },
+      },
+    );
+    const errors: unknown[] = [];
+    const query = createLbQuery(schema, {
+      store,
+      logger: { error: (message: string, meta?: unknown) => errors.push([message, meta]) },
+    });
+
+    await expect(query.list({ leaderboard: "profit", timeframe: "lifetime" })).rejects.toThrow(
+      "redis down",
+    );
+    expect(errors).toEqual([
+      [
+        "Failed read-through leaderboard rebuild",
+        { error: new Error("redis down"), timeframe: "lifetime" },
+      ],
+    ]);
+  });
+
+  test("rolls minute and ISO week windows", async () => {
+    const schema = defineLbSchema({
+      prefix: "lb:units",
+      timeframes: {
+        quarterHour: lbTimeframe.rolling("minute", 15),
+        fourWeeks: lbTimeframe.rolling("week", 4),
+      },
+      leaderboards: {
+        points: lbBoard.sum("quarterHour", "fourWeeks"),
+      },
+      defaults: { leaderboard: "points", timeframe: "fourWeeks" },
+    });
+    const runtime = createMemoryLb(schema);
+    // Sunday 2026-01-04 closes ISO week 2026-W01; 2025-12-01 is in 2025-W49.
+    const now = new Date(Date.UTC(2026, 0, 4, 12, 30, 45));
+
+    await runtime.write.ingest([["u1", { points: 5 }]], new Date(Date.UTC(2025, 11, 1)));
+    await runtime.write.ingest([["u2", { points: 3 }]], new Date(Date.UTC(2025, 11, 15)));
+    await runtime.write.ingest([["u3", { points: 2 }]], new Date(Date.UTC(2026, 0, 4, 12, 16)));
+    await runtime.write.ingest([["u4", { points: 1 }]], new Date(Date.UTC(2026, 0, 4, 12, 15)));
+    await runtime.write.rebuild(["quarterHour", "fourWeeks"], now);
+
+    const ids = async (timeframe: "quarterHour" | "fourWeeks") =>
+      (await runtime.query.list({ leaderboard: "points", timeframe })).rows.map(
+        (row) => row.userId,
+      );
+    expect(await ids("fourWeeks")).toEqual(["u2", "u3", "u4"]);
+    expect(await ids("quarterHour")).toEqual(["u3"]);
+    expect(
+      bundleFromSchema(schema).redis.resolveBuildSourceKeys?.({
+        timeframe: "fourWeeks",
+        category: "points",
+        date: now,
+      }),
+    ).toEqual([
+      "lb:units:window:w:2026-W01:points",
+      "lb:units:window:w:2025-W52:points",
+      "lb:units:window:w:2025-W51:points",
+      "lb:units:window:w:2025-W50:points",
+    ]);
+  });
+
+  test("resets calendar timeframes at the start of each period", async () => {
+    const schema = defineLbSchema({
+      prefix: "lb:calendar",
+      timeframes: {
+        thisWeek: lbTimeframe.calendar("week"),
+        lifetime: lbTimeframe.all(),
+      },
+      leaderboards: {
+        points: lbBoard.sum("thisWeek", "lifetime"),
+      },
+      defaults: { leaderboard: "points", timeframe: "thisWeek" },
+    });
+    const runtime = createMemoryLb(schema);
+    const now = new Date();
+
+    await runtime.write.ingest([["u1", { points: 5 }]], new Date(now.getTime() - 7 * 86_400_000));
+    await runtime.write.ingest([["u2", { points: 3 }]], now);
+    await runtime.write.rebuild(["thisWeek", "lifetime"], now);
+
+    const week = await runtime.query.list({ leaderboard: "points", timeframe: "thisWeek" });
+    expect(week.rows.map((row) => row.userId)).toEqual(["u2"]);
+    const start = new Date(week.period?.start ?? 0);
+    expect(start.getUTCDay()).toBe(1);
+    expect(start.getUTCHours()).toBe(0);
+    expect(week.period?.end).toBe(start.getTime() + 7 * 86_400_000);
+    expect(now.getTime()).toBeGreaterThanOrEqual(start.getTime());
+    expect(now.getTime()).toBeLessThan(week.period?.end ?? 0);
+
+    const lifetime = await runtime.query.list({ leaderboard: "points", timeframe: "lifetime" });
+    expect(lifetime.rows).toHaveLength(2);
+    expect(lifetime.period).toBeNull();
+  });
+
+  test("reports the period a calendar snapshot was built in", async () => {
+    const schema = defineLbSchema({
+      timeframes: { thisMonth: lbTimeframe.calendar("month") },
+      leaderboards: { points: lbBoard.sum("thisMonth") },
+      defaults: { leaderboard: "points", timeframe: "thisMonth" },
+    });
+    const runtime = createMemoryLb(schema);
+    const service = createLeaderboardService(bundleFromSchema(schema).service, {
+      store: runtime.store,
+    });
+    const builtAt = Date.UTC(2026, 0, 31, 23, 59, 30);
+    const january = { start: Date.UTC(2026, 0, 1), end: Date.UTC(2026, 1, 1) };
+    const realNow = Date.now;
+    try {
+      Date.now = () => builtAt;
+      await runtime.write.ingest([["u1", { points: 5 }]], new Date(builtAt));
+      await runtime.write.rebuild(["thisMonth"], new Date(builtAt));
+
+      // Read after February started, before anything rebuilt the board.
+      Date.now = () => builtAt + 60_000;
+      const list = await runtime.query.list({ leaderboard: "points", timeframe: "thisMonth" });
+      expect(list.rows.map((row) => row.userId)).toEqual(["u1"]);
+      expect(list.period).toEqual(january);
+      expect((await service.getLeaderboard({ timeframe: "thisMonth" })).period).toEqual(january);
+    } finally {
+      Date.now = realNow;
+    }
+  });
+
+  test("reports user percentiles from the competition position on dense boards", async () => {
+    const runtime = createMemoryLb(
+      defineLbSchema({
+        rankStrategy: "dense",
+        timeframes: { day: lbTimeframe.rolling("hour", 24) },
+        leaderboards: { points: lbBoard.sum("day") },
+        defaults: { leaderboard: "points", timeframe: "day" },
+      }),
+    );
+    await runtime.write.ingest([
+      ["u1", { points: 10 }],
+      ["u2", { points: 10 }],
+      ["u3", { points: 10 }],
+      ["u4", { points: 5 }],
+    ]);
+    await runtime.write.rebuild(["day"]);
+
+    expect(
+      await runtime.query.user({ leaderboard: "points", timeframe: "day", userId: "u4" }),
+    ).toMatchObject({ rank: 2, percentile: 100 });
+  });
+
+  test("buckets timeframes in their IANA timezone", async () => {
+    const schema = defineLbSchema({
+      prefix: "lb:tz",
+      timezone: "Asia/Tokyo",
+      timeframes: {
+        today: lbTimeframe.calendar("day"),
+        nyDay: lbTimeframe.rolling("day", 1, "America/New_York"),
+      },
+      leaderboards: {
+        points: lbBoard.sum("today", "nyDay"),
+      },
+      defaults: { leaderboard: "points", timeframe: "today" },
+    });
+    const runtime = createMemoryLb(schema);
+    // 15:30 UTC on Jan 3 is already Jan 4 in Tokyo, and still Jan 3 in New York.
+    const now = new Date(Date.UTC(2026, 0, 3, 15, 30));
+
+    await runtime.write.ingest([["u1", { points: 5 }]], new Date(Date.UTC(2026, 0, 3, 14, 59)));
+    await runtime.write.ingest([["u2", { points: 3 }]], now);
+    await runtime.write.rebuild(["today", "nyDay"], now);
+
+    const ids = async (timeframe: "today" | "nyDay") =>
+      (await runtime.query.list({ leaderboard: "points", timeframe })).rows.map(
+        (row) => row.userId,
+      );
+    expect(await ids("today")).toEqual(["u2"]);
+    expect(await ids("nyDay")).toEqual(["u1", "u2"]);
+    expect(
+      bundleFromSchema(schema).redis.resolveBuildSourceKeys?.({
+        timeframe: "today",
+        category: "points",
+        date: now,
+      }),
+    ).toEqual(["lb:tz:window:d@Asia/Tokyo:2026-01-04:points"]);
+
+    expect(() =>
+      defineLbSchema({
+        timeframes: { day: lbTimeframe.calendar("day", "Mars/Olympus_Mons") },
+        leaderboards: { points: lbBoard.sum("day") },
+        defaults: { leaderboard: "points", timeframe: "day" },
+      }),
+    ).toThrow(LeaderboardConfigError);
+  });
+
+  test("files timestamped entries and backfilled events under their own buckets", async () => {
+    const schema = defineLbSchema({
+      prefix: "lb:backfill",
+      timeframes: {
+        day: lbTimeframe.rolling("day", 1),
+        week: lbTimeframe.rolling("day", 7),
+      },
+      leaderboards: {
+        points: { ...lbBoard.max("day", "week"), tieBreaker: { type: "firstToReach" } },
+      },
+      defaults: { leaderboard: "points", timeframe: "week" },
+    });
+    const runtime = createMemoryLb(schema);
+    const now = new Date(Date.UTC(2026, 0, 10, 12));
+    const daysAgo = (days: number) => new Date(now.getTime() - days * 86_400_000);
+
+    await runtime.write.ingest(
+      [
+        ["u1", { points: 7 }, daysAgo(3)],
+        ["u2", { points: 4 }],
+      ],
+      now,
+    );
+    await runtime.write.backfill(
+      [
+        ["u3", { points: 7 }, daysAgo(2)],
+        ["u4", { points: 9 }, daysAgo(30)],
+      ],
+      { date: now },
+    );
+
+    const ids = async (timeframe: "day" | "week") =>
+      (await runtime.query.list({ leaderboard: "points", timeframe })).rows.map(
+        (row) => row.userId,
+      );
+    // u1 reached 7 a day before u3 did.
+    expect(await ids("week")).toEqual(["u1", "u3", "u2"]);
+    // Neither event lands in today's bucket, so the day board is left unbuilt.
+    expect(await ids("day")).toEqual([]);
+    expect(
+      (await runtime.query.list({ leaderboard: "points", timeframe: "day" })).builtAt,
+    ).toBeNull();
+
+    await expect(
+      runtime.write.backfill([["u5", { points: 1 }, new Date(Number.NaN)]]),
+    ).rejects.toThrow(LeaderboardQueryError);
+  });
+
+  test("serves realtime all-time boards without a rebuild", async () => {
+    const schema = defineLbSchema({
+      prefix: "lb:live",
+      timeframes: {
+        day: lbTimeframe.rolling("hour", 24),
+        lifetime: lbTimeframe.all({ realtime: true }),
+      },
+      leaderboards: { points: lbBoard.sum("day", "lifetime") },
+      defaults: { leaderboard: "points", timeframe: "lifetime" },
+    });
+    const runtime = createMemoryLb(schema);
+    const ids = async (timeframe: "day" | "lifetime") =>
+      (await runtime.query.list({ leaderboard: "points", timeframe })).rows.map(
+        (row) => `${row.userId}:${row.score}`,
+      );
+
+    await runtime.write.ingest([
+      ["u1", { points: 3 }],
+      ["u2", { points: 5 }],
+    ]);
+    expect(await ids("lifetime")).toEqual(["u2:5", "u1:3"]);
+    expect(await ids("day")).toEqual([]);
+
+    await runtime.write.rebuild(["lifetime"]);
+    await runtime.write.ingest([["u1", { points: 4 }]]);
+    const list = await runtime.query.list({ leaderboard: "points", timeframe: "lifetime" });
+    expect(list.rows.map((row) => `${row.userId}:${row.score}`)).toEqual(["u1:7", "u2:5"]);
+    expect(list.buildVersion).toBeNull();
+    expect(bundleFromSchema(schema).keys.rank("lifetime", "points")).toBe(
+      "lb:live:window:all:points",
+    );
+  });
+
+  test("reports rank movement on list, user and around rows", async () => {
+    const runtime = createMemoryLb(
+      defineLbSchema({
+        rankStrategy: "competition",
+        timeframes: { day: lbTimeframe.rolling("hour", 24) },
+        leaderboards: { points: lbBoard.sum("day") },
+        defaults: { leaderboard: "points", timeframe: "day" },
+      }),
+    );
+    const query = { leaderboard: "points", timeframe: "day" } as const;
+
+    await runtime.write.ingest([
+      ["u1", { points: 9 }],
+      ["u2", { points: 5 }],
+      ["u3", { points: 5 }],
+    ]);
+    await runtime.write.rebuild(["day"]);
+    await runtime.write.ingest([
+      ["u3", { points: 6 }],
+      ["u4", { points: 1 }],
+    ]);
+    await runtime.write.rebuild(["day"]);
+
+    const list = await runtime.query.list(query);
+    expect(list.rows.map((row) => [row.userId, row.rank, row.previousRank, row.rankDelta])).toEqual([
+      ["u3", 1, 2, 1],
+      ["u1", 2, 1, -1],
+      ["u2", 3, 2, -1],
+      ["u4", 4, null, null],
+    ]);
+    expect(await runtime.query.user({ ...query, userId: "u2" })).toMatchObject({
+      previousRank: 2,
+      rankDelta: -1,
+      percentile: 75,
+    });
+    const around = await runtime.query.around({ ...query, userId: "u4", above: 1, below: 0 });
+    expect(around.map((row) => row.rankDelta)).toEqual([-1, null]);
+  });
+
+  test("reads a user's per-bucket history oldest first", async () => {
+    const runtime = createMemoryLb(
+      defineLbSchema({
+        timeframes: {
+          threeHours: lbTimeframe.rolling("hour", 3),
+          week: lbTimeframe.rolling("day", 7),
+          lifetime: lbTimeframe.all(),
+        },
+        leaderboards: {
+          points: lbBoard.sum("threeHours", "week", "lifetime"),
+          best: lbBoard.max("threeHours"),
+        },
+        defaults: { leaderboard: "points", timeframe: "week" },
+      }),
+    );
+    const at = (day: number, hour: number) => new Date(Date.UTC(2026, 0, day, hour, 30));
+
+    await runtime.write.ingest([
+      ["u1", { points: 2, best: 7 }, at(10, 9)],
+      ["u1", { points: 3, best: 4 }, at(10, 11)],
+      ["u1", { points: 1, best: 0 }, at(10, 11)],
+      ["u2", { points: 5, best: 5 }, at(9, 8)],
+      ["u1", { points: 4, best: 0 }, at(8, 20)],
+    ]);
+
+    const history = (
+      leaderboard: "points" | "best",
+      timeframe: "threeHours" | "week" | "lifetime",
+    ) =>
+      runtime.query.history({
+        leaderboard,
+        timeframe: timeframe as "threeHours",
+        userId: "u1",
+        date: at(10, 11),
+      });
+    expect(await history("points", "threeHours")).toEqual([
+      [Date.UTC(2026, 0, 10, 9), 2],
+      [Date.UTC(2026, 0, 10, 10), 0],
+      [Date.UTC(2026, 0, 10, 11), 4],
+    ]);
+    expect((await history("best", "threeHours")).map(([, value]) => value)).toEqual([7, 0, 4]);
+    const week = await history("points", "week");
+    expect(week).toHaveLength(7);
+    expect(week.slice(-3)).toEqual([
+      [Date.UTC(2026, 0, 8), 4],
+      [Date.UTC(2026, 0, 9), 0],
+      [Date.UTC(2026, 0, 10), 6],
+    ]);
+    // The all-time bucket has no start, so it has no history.
+    expect(await history("points", "lifetime")).toEqual([]);
+  });
+
+  test("shares cached list results until the runtime writes to the timeframe", async () => {
+    const runtime = createMemoryLb(
+      defineLbSchema({
+        responseCache: { ttlMs: 60_000 },
+        timeframes: {
+          day: lbTimeframe.rolling("hour", 24),
+          lifetime: lbTimeframe.all({ realtime: true }),
+        },
+        leaderboards: { points: lbBoard.sum("day", "lifetime") },
+        defaults: { leaderboard: "points", timeframe: "day" },
+      }),
+    );
+    let reads = 0;
+    const top = runtime.store.getTopRankedUsers.bind(runtime.store);
+    runtime.store.getTopRankedUsers = async (...args) => {
+      reads += 1;
+      return top(...args);
+    };
+    const list = (timeframe: "day" | "lifetime") =>
+      runtime.query.list({ leaderboard: "points", timeframe, limit: 5 });
+
+    await runtime.write.ingest([["u1", { points: 3 }]]);
+    await runtime.write.rebuild(["day"]);
+    const [first, second] = await Promise.all([list("day"), list("day")]);
+    expect(second).toBe(first);
+    expect(await list("day")).toBe(first);
+    expect(reads).toBe(1);
+
+    await list("lifetime");
+    await runtime.write.ingest([["u2", { points: 8 }]]);
+    expect((await list("lifetime")).rows.map((row) => row.userId)).toEqual(["u2", "u1"]);
+    expect(await list("day")).toBe(first);
+
+    await runtime.write.removeUser("u1");
+    expect((await list("day")).rows).toEqual([]);
   });
 
   test("throws if querying a board/timeframe combination that is not defined", async () => {
@@ -109,6 +739,7 @@ describe("schema + query api", () => {
     await expect(
       runtime.query.list({
         leaderboard: "best_streak",
+        // @ts-expect-error best_streak has no day board.
         timeframe: "day",
       }),
     ).rejects.toThrow(LeaderboardQueryError);
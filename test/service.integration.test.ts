@@ -1,5 +1,6 @@
 import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
 import { createLeaderboardService } from "../src/service";
+import { createRedisLb, defineLbSchema, lbBoard, lbTimeframe } from "../src/schema";
 import { RedisLeaderboardStore } from "../src/adapters";
 import type { MetadataPort, UsernamePort } from "../src/ports";
 import { createRedisInfra, type RedisTestInfra } from "./infra";
@@ -104,6 +105,8 @@ describe("rolling leaderboard integration", () => {
 
     expect(result.user?.userId).toBe("u1");
     expect(result.user?.rank).toBe(2);
+    expect(result.total).toBe(3);
+    expect(result.user?.percentile).toBe(66.67);
   });
 
   test("applies limit guardrails", async () => {
@@ -143,6 +146,20 @@ describe("rolling leaderboard integration", () => {
     });
 
     expect(capped.entries.length).toBe(10);
+    expect(capped.hasMore).toBeTrue();
+
+    const next = await service.getLeaderboard({
+      timeframe: "24h",
+      orderBy: "profit",
+      limit: 999,
+      cursor: capped.nextCursor,
+    });
+    expect(next.entries.map((entry) => entry.rank)).toEqual([
+      11, 12, 13, 14, 15, 16, 17, 18, 19, 20,
+    ]);
+    expect(next.entries[0]?.userId).toBe("u11");
+    expect(next.hasMore).toBeFalse();
+    expect(next.nextCursor).toBeNull();
   });
 
   test("supports max aggregation with custom rolling source keys", async () => {
@@ -228,4 +245,626 @@ describe("rolling leaderboard integration", () => {
     expect(byMax.entries[0]?.scores.max_multiplier).toBe(50);
     expect(byMax.entries[1]?.scores.max_multiplier).toBe(40);
   });
+
+  test("reads the neighbourhood around a user", async () => {
+    type Category = "profit";
+    type Timeframe = "24h";
+
+    const store = new RedisLeaderboardStore<Category, Timeframe>(infra.client, {
+      prefix: "test:lb:around",
+      categories: ["profit"],
+      timeframes: ["24h"],
+    });
+
+    const service = createLeaderboardService<Category, Timeframe>(
+      {
+        categories: ["profit"],
+        defaultCategory: "profit",
+        timeframes: ["24h"],
+        defaultTimeframe: "24h",
+      },
+      { store },
+    );
+
+    await service.ingest(
+      Array.from({ length: 10 }).map((_, i) => [
+        `u${i + 1}`,
+        { profit: 100 - i },
+      ]),
+    );
+    await service.rebuild(["24h"]);
+
+    const around = await service.getAround(
+      "u5",
+      { timeframe: "24h", orderBy: "profit" },
+      { above: 2, below: 2 },
+    );
+    expect(around.entries.map((entry) => [entry.userId, entry.rank])).toEqual([
+      ["u3", 3],
+      ["u4", 4],
+      ["u5", 5],
+      ["u6", 6],
+      ["u7", 7],
+    ]);
+    expect(around.user?.scores.profit).toBe(96);
+
+    const ascending = await service.getAround(
+      "u10",
+      { timeframe: "24h", orderBy: "profit", sort: "asc" },
+      { above: 2, below: 1 },
+    );
+    expect(ascending.entries.map((entry) => entry.userId)).toEqual(["u10", "u9"]);
+  });
+
+  test("numbers tied scores according to rankStrategy", async () => {
+    type Category = "profit";
+    type Timeframe = "24h";
+
+    const store = new RedisLeaderboardStore<Category, Timeframe>(infra.client, {
+      prefix: "test:lb:ties",
+      categories: ["profit"],
+      timeframes: ["24h"],
+    });
+    await store.ingestWindows([
+      ["a", { profit: 50 }],
+      ["b", { profit: 40 }],
+      ["c", { profit: 40 }],
+      ["d", { profit: 30 }],
+      ["e", { profit: 30 }],
+      ["f", { profit: 30 }],
+      ["g", { profit: 20 }],
+    ]);
+    await store.buildRankingFromWindows("24h");
+
+    const ranksFor = async (rankStrategy: "ordinal" | "competition" | "dense") => {
+      const service = createLeaderboardService<Category, Timeframe>(
+        {
+          categories: ["profit"],
+          defaultCategory: "profit",
+          timeframes: ["24h"],
+          defaultTimeframe: "24h",
+          rankStrategy,
+        },
+        { store },
+      );
+      const all = await service.getLeaderboard({ timeframe: "24h" });
+      const page = await service.getLeaderboard({ timeframe: "24h", offset: 4, limit: 2 }, "e");
+      const around = await service.getAround("d", { timeframe: "24h" }, { above: 1, below: 1 });
+      return {
+        all: all.entries.map((entry) => `${entry.userId}${entry.rank}`),
+        page: page.entries.map((entry) => entry.rank),
+        user: page.user?.rank,
+        around: around.entries.map((entry) => entry.rank),
+      };
+    };
+
+    expect(await ranksFor("ordinal")).toEqual({
+      all: ["a1", "c2", "b3", "f4", "e5", "d6", "g7"],
+      page: [5, 6],
+      user: 5,
+      around: [5, 6, 7],
+    });
+    expect(await ranksFor("competition")).toEqual({
+      all: ["a1", "c2", "b2", "f4", "e4", "d4", "g7"],
+      page: [4, 4],
+      user: 4,
+      around: [4, 4, 7],
+    });
+    expect(await ranksFor("dense")).toEqual({
+      all: ["a1", "c2", "b2", "f3", "e3", "d3", "g4"],
+      page: [3, 3],
+      user: 3,
+      around: [3, 3, 4],
+    });
+  });
+
+  test("orders tied scores with tie-breakers across page boundaries", async () => {
+    type Category = "profit" | "wins";
+    type Timeframe = "24h";
+
+    const store = new RedisLeaderboardStore<Category, Timeframe>(infra.client, {
+      prefix: "test:lb:tiebreak",
+      categories: ["profit", "wins"],
+      timeframes: ["24h"],
+      categoryTieBreakers: {
+        profit: { type: "firstToReach" },
+        wins: { type: "category", category: "profit", sort: "asc" },
+      },
+    });
+    const at = (minute: number) => new Date(Date.UTC(2026, 0, 1, 0, minute));
+    await store.ingestWindows([["z", { profit: 50, wins: 2 }]], at(0));
+    await store.ingestWindows([["y", { profit: 30, wins: 2 }]], at(1));
+    await store.ingestWindows([["x", { profit: 30, wins: 2 }]], at(2));
+    await store.ingestWindows([["a", { profit: 30, wins: 1 }]], at(3));
+    await store.ingestWindows([["b", { profit: 10, wins: 1 }]], at(4));
+    await store.buildRankingFromWindows("24h");
+
+    const page = async (category: Category, offset: number) =>
+      (await store.getTopRankedUsers("24h", category, 2, true, { offset }))?.map(
+        (row) => row.userId,
+      );
+    expect([
+      ...((await page("profit", 0)) ?? []),
+      ...((await page("profit", 2)) ?? []),
+      ...((await page("profit", 4)) ?? []),
+    ]).toEqual(["z", "y", "x", "a", "b"]);
+    expect(await store.getUserRank("x", "24h", "profit", true)).toEqual({
+      userId: "x",
+      score: 30,
+      rank: 3,
+    });
+    expect(
+      (await store.getUsersAround("a", "24h", "profit", 1, 1, true))?.map((row) => row.userId),
+    ).toEqual(["x", "a", "b"]);
+
+    // wins ties prefer the lower profit.
+    expect(
+      (await store.getTopRankedUsers("24h", "wins", 5, true, { rankStrategy: "dense" }))?.map(
+        (row) => `${row.userId}${row.rank}`,
+      ),
+    ).toEqual(["y1", "x1", "z2", "b3", "a4"]);
+  });
+
+  test("takes max reach times from the bucket holding the best score", async () => {
+    const store = new RedisLeaderboardStore<"best", "3h">(infra.client, {
+      prefix: "test:lb:reach",
+      categories: ["best"],
+      timeframes: ["3h"],
+      categoryAggregation: { best: "max" },
+      categoryTieBreakers: { best: { type: "firstToReach" } },
+      resolveIngestKeys: ({ category, date }) => [`test:reach:${category}:h${date.getUTCHours()}`],
+      resolveBuildSourceKeys: ({ category }) =>
+        [0, 1, 2].map((hour) => `test:reach:${category}:h${hour}`),
+    });
+    const hour = (n: number) => new Date(Date.UTC(2026, 0, 1, n));
+    await store.ingestWindows([["alice", { best: 1 }]], hour(0));
+    await store.ingestWindows([["bob", { best: 100 }]], hour(1));
+    await store.ingestWindows([["alice", { best: 100 }]], hour(2));
+    await store.buildRankingFromWindows("3h", hour(2));
+
+    expect(await store.getTopRankedUsers("3h", "best", 10, true)).toEqual([
+      { userId: "bob", score: 100, rank: 1 },
+      { userId: "alice", score: 100, rank: 2 },
+    ]);
+  });
+
+  test("removes users from every historical bucket and resets boards", async () => {
+    type Category = "profit";
+    type Timeframe = "3h";
+
+    const store = new RedisLeaderboardStore<Category, Timeframe>(infra.client, {
+      prefix: "test:lb:remove",
+      categories: ["profit"],
+      timeframes: ["3h"],
+      resolveIngestKeys: ({ date }) => [`test:lb:remove:h${date.getUTCHours()}:profit`],
+      resolveBuildSourceKeys: () => [0, 1, 2].map((h) => `test:lb:remove:h${h}:profit`),
+    });
+    const hour = (n: number) => new Date(Date.UTC(2026, 0, 1, n));
+    await store.ingestWindows([["cheater", { profit: 90 }]], hour(0));
+    await store.ingestWindows([["cheater", { profit: 10 }], ["u1", { profit: 5 }]], hour(2));
+    await store.buildRankingFromWindows("3h");
+
+    await store.removeUser("cheater");
+    expect(await store.getUserRank("cheater", "3h", "profit", true)).toBeNull();
+    expect(await infra.client.zScore("test:lb:remove:h0:profit", "cheater")).toBeNull();
+
+    await store.buildRankingFromWindows("3h");
+    const top = await store.getTopRankedUsers("3h", "profit", 10, true);
+    expect(top?.map((row) => row.userId)).toEqual(["u1"]);
+
+    await store.resetBoard("profit", "3h");
+    expect(await store.countRanked("3h", "profit")).toBe(0);
+    expect(await infra.client.zScore("test:lb:remove:h2:profit", "u1")).toBeNull();
+  });
+
+  test("single-flights read-through rebuilds behind a Redis lock", async () => {
+    type Category = "profit";
+    type Timeframe = "24h";
+
+    const config = {
+      prefix: "test:lb:readthrough",
+      categories: ["profit"],
+      timeframes: ["24h"],
+    } as const;
+    const serviceConfig = {
+      categories: ["profit"],
+      defaultCategory: "profit",
+      timeframes: ["24h"],
+      defaultTimeframe: "24h",
+      readThrough: { pollIntervalMs: 10 },
+    } as const;
+
+    const storeA = new RedisLeaderboardStore<Category, Timeframe>(infra.client, config);
+    const storeB = new RedisLeaderboardStore<Category, Timeframe>(infra.client, config);
+    await storeA.ingestWindows([["u1", { profit: 5 }]]);
+
+    let builds = 0;
+    for (const store of [storeA, storeB]) {
+      const build = store.buildRankingFromWindows.bind(store);
+      store.buildRankingFromWindows = async (...args) => {
+        builds += 1;
+        await build(...args);
+      };
+    }
+
+    const serviceA = createLeaderboardService<Category, Timeframe>(serviceConfig, {
+      store: storeA,
+    });
+    const serviceB = createLeaderboardService<Category, Timeframe>(serviceConfig, {
+      store: storeB,
+    });
+    const [a, b] = await Promise.all([serviceA.getLeaderboard(), serviceB.getLeaderboard()]);
+
+    expect(builds).toBe(1);
+    expect(a.entries.map((entry) => entry.userId)).toEqual(["u1"]);
+    expect(b.entries.map((entry) => entry.userId)).toEqual(["u1"]);
+    expect(await infra.client.exists("test:lb:readthrough:lock:rebuild:24h")).toBe(0);
+  });
+
+  test("serves pinned reads from rank snapshots after a swap", async () => {
+    type Category = "profit";
+    type Timeframe = "24h";
+
+    const store = new RedisLeaderboardStore<Category, Timeframe>(infra.client, {
+      prefix: "test:lb:snapshot",
+      categories: ["profit"],
+      timeframes: ["24h"],
+    });
+    const service = createLeaderboardService<Category, Timeframe>(
+      {
+        categories: ["profit"],
+        defaultCategory: "profit",
+        timeframes: ["24h"],
+        defaultTimeframe: "24h",
+      },
+      { store },
+    );
+
+    await service.ingest([["u1", { profit: 30 }], ["u2", { profit: 20 }]]);
+    await service.rebuild(["24h"]);
+    const first = await service.getLeaderboard({ limit: 1 });
+    const info = await store.getBuildInfo("24h");
+    expect(first.buildVersion).toBe(info?.version ?? null);
+
+    await service.ingest([["u2", { profit: 50 }]]);
+    await service.rebuild(["24h"]);
+    expect((await store.getBuildInfo("24h"))?.previousVersion).toBe(first.buildVersion);
+
+    const pinned = await service.getLeaderboard({ limit: 1, cursor: first.nextCursor });
+    expect(pinned.entries.map((entry) => [entry.userId, entry.scores.profit])).toEqual([
+      ["u2", 20],
+    ]);
+    const live = await service.getLeaderboard({ limit: 1 });
+    expect(live.entries.map((entry) => entry.userId)).toEqual(["u2"]);
+  });
+
+  test("reads the build hash once per pinned read", async () => {
+    let buildReads = 0;
+    const client = new Proxy(infra.client, {
+      get(target, property) {
+        const value = Reflect.get(target, property);
+        if (typeof value !== "function") return value;
+        return (...args: unknown[]) => {
+          if (property === "hGetAll" && String(args[0]).startsWith("test:lb:once:build")) {
+            buildReads += 1;
+          }
+          return value.apply(target, args);
+        };
+      },
+    });
+    const store = new RedisLeaderboardStore<"profit" | "wins", "24h">(client, {
+      prefix: "test:lb:once",
+      categories: ["profit", "wins"],
+      timeframes: ["24h"],
+      categoryTieBreakers: { profit: { type: "category", category: "wins" } },
+    });
+    const service = createLeaderboardService<"profit" | "wins", "24h">(
+      {
+        categories: ["profit", "wins"],
+        defaultCategory: "profit",
+        timeframes: ["24h"],
+        defaultTimeframe: "24h",
+      },
+      { store },
+    );
+
+    await service.ingest([["u1", { profit: 30, wins: 1 }], ["u2", { profit: 20, wins: 2 }]]);
+    await service.rebuild(["24h"]);
+    await service.rebuild(["24h"]);
+    const first = await service.getLeaderboard({ limit: 1 });
+
+    buildReads = 0;
+    const pinned = await service.getLeaderboard({ limit: 1, cursor: first.nextCursor }, "u1");
+    expect(pinned.entries.map((entry) => [entry.userId, entry.previousRank])).toEqual([
+      ["u2", 2],
+    ]);
+    expect(buildReads).toBe(1);
+  });
+
+  test("backfills timestamped events into their historical buckets", async () => {
+    const runtime = createRedisLb(
+      infra.client,
+      defineLbSchema({
+        prefix: "test:lb:backfill",
+        timeframes: {
+          today: lbTimeframe.rolling("day", 1),
+          week: lbTimeframe.rolling("day", 7),
+        },
+        leaderboards: { points: lbBoard.sum("today", "week") },
+        defaults: { leaderboard: "points", timeframe: "week" },
+      }),
+    );
+    const now = new Date(Date.UTC(2026, 0, 10, 12));
+
+    await runtime.write.backfill(
+      [
+        ["u1", { points: 2 }, new Date(Date.UTC(2026, 0, 8, 9))],
+        ["u1", { points: 3 }, new Date(Date.UTC(2026, 0, 9, 9))],
+        ["u2", { points: 4 }, new Date(Date.UTC(2025, 11, 1))],
+      ],
+      { date: now },
+    );
+
+    expect(await infra.client.zScore("test:lb:backfill:window:d:2026-01-08:points", "u1")).toBe(2);
+    expect(await infra.client.zScore("test:lb:backfill:window:d:2026-01-09:points", "u1")).toBe(3);
+    const top = await runtime.query.list({ leaderboard: "points", timeframe: "week" });
+    expect(top.rows.map((row) => [row.userId, row.score])).toEqual([["u1", 5]]);
+    // No event fell on the current day, so only the week was rebuilt.
+    expect(await infra.client.exists("test:lb:backfill:build:today")).toBe(0);
+  });
+
+  test("reads usernames and metadata from the runtime's profile hashes", async () => {
+    const runtime = createRedisLb(
+      infra.client,
+      defineLbSchema({
+        prefix: "test:lb:profiles",
+        timeframes: { day: lbTimeframe.rolling("hour", 24) },
+        leaderboards: { points: lbBoard.sum("day") },
+        defaults: { leaderboard: "points", timeframe: "day" },
+      }),
+    );
+
+    await runtime.write.setUsername("u1", "ada");
+    await runtime.write.mergeMetadata("day", "u1", { tier: "gold" });
+    await runtime.write.mergeMetadata("day", "u1", { avatar: "ada.png" });
+
+    expect(await infra.client.hGet("test:lb:profiles:names", "u1")).toBe("ada");
+    expect(await runtime.profiles.getUsernames(["u1", "u2"])).toEqual(new Map([["u1", "ada"]]));
+    expect(await runtime.profiles.getMetadata("day", ["u1"])).toEqual(
+      new Map([["u1", { tier: "gold", avatar: "ada.png" }]]),
+    );
+  });
+
+  test("keeps the previous build's ranks for rank movement", async () => {
+    const runtime = createRedisLb(
+      infra.client,
+      defineLbSchema({
+        prefix: "test:lb:movement",
+        timeframes: { day: lbTimeframe.rolling("hour", 24) },
+        leaderboards: {
+          points: { ...lbBoard.sum("day"), tieBreaker: { type: "firstToReach" } },
+        },
+        defaults: { leaderboard: "points", timeframe: "day" },
+      }),
+    );
+    const query = { leaderboard: "points", timeframe: "day" } as const;
+    const movement = async () =>
+      (await runtime.query.list(query)).rows.map((row) => [
+        row.userId,
+        row.rank,
+        row.previousRank,
+        row.rankDelta,
+      ]);
+
+    await runtime.write.ingest(
+      [["u1", { points: 5 }], ["u2", { points: 3 }]],
+      new Date(Date.now() - 60_000),
+    );
+    await runtime.write.rebuild(["day"]);
+    expect(await movement()).toEqual([
+      ["u1", 1, null, null],
+      ["u2", 2, null, null],
+    ]);
+
+    await runtime.write.ingest([["u2", { points: 2 }], ["u3", { points: 4 }]]);
+    await runtime.write.rebuild(["day"]);
+    expect(await movement()).toEqual([
+      ["u1", 1, 1, 0],
+      ["u2", 2, 2, 0],
+      ["u3", 3, null, null],
+    ]);
+
+    // The outgoing live board is kept, so removals since the last build are reflected.
+    await runtime.write.removeUser("u1");
+    await runtime.write.rebuild(["day"]);
+    expect(await movement()).toEqual([
+      ["u2", 1, 1, 0],
+      ["u3", 2, 2, 0],
+    ]);
+  });
+
+  test("reads a user's per-bucket history from Redis", async () => {
+    const runtime = createRedisLb(
+      infra.client,
+      defineLbSchema({
+        prefix: "test:lb:history",
+        timeframes: { day: lbTimeframe.rolling("hour", 24) },
+        leaderboards: { points: lbBoard.sum("day") },
+        defaults: { leaderboard: "points", timeframe: "day" },
+      }),
+    );
+    const now = new Date(Date.UTC(2026, 0, 10, 12, 15));
+
+    await runtime.write.ingest([
+      ["u1", { points: 3 }, new Date(Date.UTC(2026, 0, 10, 12, 5))],
+      ["u1", { points: 2 }, new Date(Date.UTC(2026, 0, 10, 10, 40))],
+      ["u2", { points: 9 }, new Date(Date.UTC(2026, 0, 10, 11, 0))],
+    ]);
+
+    const history = await runtime.query.history({
+      leaderboard: "points",
+      timeframe: "day",
+      userId: "u1",
+      date: now,
+    });
+    expect(history).toHaveLength(24);
+    expect(history.slice(-3)).toEqual([
+      [Date.UTC(2026, 0, 10, 10), 2],
+      [Date.UTC(2026, 0, 10, 11), 0],
+      [Date.UTC(2026, 0, 10, 12), 3],
+    ]);
+  });
+
+  test("dedupes retried entries by eventId", async () => {
+    const store = new RedisLeaderboardStore<"points", "all">(infra.client, {
+      prefix: "test:lb:events",
+      categories: ["points"],
+      timeframes: ["all"],
+      eventIdTtlSeconds: 60,
+    });
+
+    const batch: Parameters<typeof store.ingestWindows>[0] = [
+      ["u1", { points: 10 }, { eventId: "e1" }],
+      ["u2", { points: 5 }, { eventId: "e2" }],
+      ["u2", { points: 5 }, { eventId: "e2" }],
+    ];
+    expect(await store.ingestWindows(batch)).toEqual({ applied: 2, skipped: 1 });
+    expect(await store.ingestWindows(batch)).toEqual({ applied: 0, skipped: 3 });
+    expect(await infra.client.ttl("test:lb:events:event:e1")).toBeGreaterThan(0);
+
+    await store.buildRankingFromWindows("all");
+    expect(await store.getScoresBatch("all", ["u1", "u2"])).toEqual(
+      new Map([
+        ["u1", { points: 10 }],
+        ["u2", { points: 5 }],
+      ]),
+    );
+  });
+
+  test("applies script-mode ingest with the same semantics as MULTI", async () => {
+    type Category = "profit" | "best" | "low";
+    const storeFor = (ingestMode: "multi" | "script") =>
+      new RedisLeaderboardStore<Category, "24h">(infra.client, {
+        prefix: `test:lb:${ingestMode}`,
+        categories: ["profit", "best", "low"],
+        timeframes: ["24h"],
+        ingestMode,
+        categoryAggregation: { best: "max", low: "min" },
+        categoryTieBreakers: {
+          profit: { type: "firstToReach" },
+          best: { type: "firstToReach" },
+        },
+        resolveWindowTtlSeconds: () => 120,
+      });
+    const at = (minute: number) => new Date(Date.UTC(2026, 0, 1, 0, minute));
+    const batches: Array<Parameters<RedisLeaderboardStore<Category, "24h">["ingestWindows"]>> = [
+      [[["a", { profit: 5, best: 3, low: 9 }], ["b", { profit: 0.1, best: 4, low: 2 }]], at(0)],
+      [[["a", { profit: 0.2, best: 3, low: 4 }], ["b", { profit: -1, best: 7, low: 5 }]], at(1)],
+      [
+        [
+          ["c", { profit: 2, best: 1, low: 1 }, at(3)],
+          ["a", { profit: 1, best: 8, low: 0 }, at(2)],
+        ],
+        at(4),
+      ],
+    ];
+
+    const dump = async (ingestMode: "multi" | "script") => {
+      const store = storeFor(ingestMode);
+      for (const batch of batches) await store.ingestWindows(...batch);
+      const prefix = `test:lb:${ingestMode}`;
+      const keys = ["profit", "best", "low"].flatMap((category) => [
+        `${prefix}:window:24h:${category}`,
+        `${prefix}:window:24h:${category}:reached`,
+      ]);
+      return Promise.all(
+        keys.map(async (key) => [
+          await infra.client.zRangeWithScores(key, 0, -1),
+          (await infra.client.ttl(key)) > 0,
+        ]),
+      );
+    };
+
+    const multi = await dump("multi");
+    expect(await dump("script")).toEqual(multi);
+    expect(multi[0]?.[0]).toHaveLength(3);
+  });
+
+  test("keeps incremental sum rebuilds in step with full ones", async () => {
+    type Category = "points" | "best";
+    const hour = (n: number) => new Date(Date.UTC(2026, 0, 1, n));
+    const storeFor = (rebuildStrategy: "full" | "incremental") =>
+      new RedisLeaderboardStore<Category, "3h">(infra.client, {
+        prefix: `test:lb:${rebuildStrategy}`,
+        categories: ["points", "best"],
+        timeframes: ["3h"],
+        categoryAggregation: { best: "max" },
+        rebuildStrategy,
+        resolveIngestKeys: ({ category, date }) => [
+          `test:lb:${rebuildStrategy}:h${date.getUTCHours()}:${category}`,
+        ],
+        resolveBuildSourceKeys: ({ category, date }) =>
+          [0, 1, 2].map(
+            (back) => `test:lb:${rebuildStrategy}:h${date.getUTCHours() - back}:${category}`,
+          ),
+      });
+    const full = storeFor("full");
+    const incremental = storeFor("incremental");
+
+    const batches: Array<[Parameters<typeof full.ingestWindows>[0], Date]> = [
+      [[["u1", { points: 1, best: 1 }]], hour(0)],
+      [[["u1", { points: 10, best: 4 }], ["u2", { points: 3, best: 9 }]], hour(1)],
+      [[["u2", { points: 4, best: 1 }]], hour(2)],
+      [[["u1", { points: -2, best: 6 }], ["u3", { points: 7, best: 2 }]], hour(3)],
+      [[["u3", { points: 1, best: 1 }, hour(2)]], hour(4)],
+      [[["u2", { points: 5, best: 5 }]], hour(5)],
+    ];
+    for (const [entries, date] of batches) {
+      for (const store of [full, incremental]) {
+        await store.ingestWindows(entries, date);
+        await store.buildRankingFromWindows("3h", date);
+      }
+      for (const category of ["points", "best"] as const) {
+        expect(await incremental.getTopRankedUsers("3h", category, 10, true)).toEqual(
+          await full.getTopRankedUsers("3h", category, 10, true),
+        );
+      }
+    }
+
+    expect(await infra.client.exists("test:lb:incremental:rank:3h:points:base")).toBe(1);
+    expect(await infra.client.exists("test:lb:incremental:rank:3h:best:base")).toBe(0);
+  });
+
+  test("keeps members netting to zero in incremental bases", async () => {
+    const hour = (n: number) => new Date(Date.UTC(2026, 0, 1, n));
+    const storeFor = (rebuildStrategy: "full" | "incremental") =>
+      new RedisLeaderboardStore<"points", "3h">(infra.client, {
+        prefix: `test:lb:zero:${rebuildStrategy}`,
+        categories: ["points"],
+        timeframes: ["3h"],
+        rebuildStrategy,
+        resolveIngestKeys: ({ category, date }) => [
+          `test:lb:zero:${rebuildStrategy}:h${date.getUTCHours()}:${category}`,
+        ],
+        resolveBuildSourceKeys: ({ category, date }) =>
+          [0, 1, 2].map(
+            (back) => `test:lb:zero:${rebuildStrategy}:h${date.getUTCHours() - back}:${category}`,
+          ),
+      });
+    const full = storeFor("full");
+    const incremental = storeFor("incremental");
+
+    for (const store of [full, incremental]) {
+      await store.ingestWindows([["u3", { points: 1 }]], hour(1));
+      await store.ingestWindows([["u1", { points: 1 }]], hour(2));
+      await store.buildRankingFromWindows("3h", hour(3));
+      await store.ingestWindows([["u1", { points: -1 }], ["u2", { points: 1 }]], hour(3));
+      await store.buildRankingFromWindows("3h", hour(4));
+    }
+
+    expect(await incremental.getTopRankedUsers("3h", "points", 10, true)).toEqual(
+      await full.getTopRankedUsers("3h", "points", 10, true),
+    );
+    expect(await incremental.countRanked("3h", "points")).toBe(2);
+  });
 });
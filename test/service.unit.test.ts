@@ -53,6 +53,199 @@ describe("rolling leaderboard service (unit)", () => {
     ).rejects.toThrow(LeaderboardQueryError);
   });
 
+  test("validates removeUser and resetBoard arguments", async () => {
+    const store = createMemoryLeaderboardStore({
+      categories: ["profit"] as const,
+      timeframes: ["24h"] as const,
+    });
+
+    const service = createLeaderboardService(
+      {
+        categories: ["profit"] as const,
+        defaultCategory: "profit",
+        timeframes: ["24h"] as const,
+        defaultTimeframe: "24h",
+      },
+      { store },
+    );
+
+    await service.ingest([["u1", { profit: 5 }], ["u2", { profit: 3 }]]);
+    await service.rebuild(["24h"]);
+    await service.removeUser("u1", { timeframes: ["24h"] });
+    expect((await service.getLeaderboard()).entries.map((entry) => entry.userId)).toEqual(["u2"]);
+
+    await expect(
+      service.removeUser("u2", { categories: ["volume" as "profit"] }),
+    ).rejects.toThrow(LeaderboardQueryError);
+    await expect(service.resetBoard("profit", "7d" as "24h")).rejects.toThrow(
+      LeaderboardQueryError,
+    );
+  });
+
+  test("rebuilds a missing rank key once on read when readThrough is enabled", async () => {
+    const store = createMemoryLeaderboardStore({
+      categories: ["profit"] as const,
+      timeframes: ["24h"] as const,
+    });
+    let builds = 0;
+    const build = store.buildRankingFromWindows.bind(store);
+    store.buildRankingFromWindows = async (...args) => {
+      builds += 1;
+      await build(...args);
+    };
+
+    const service = createLeaderboardService(
+      {
+        categories: ["profit"] as const,
+        defaultCategory: "profit",
+        timeframes: ["24h"] as const,
+        defaultTimeframe: "24h",
+        readThrough: true,
+      },
+      { store },
+    );
+
+    await service.ingest([["u1", { profit: 5 }], ["u2", { profit: 3 }]]);
+    const [list, around] = await Promise.all([
+      service.getLeaderboard({}, "u2"),
+      service.getAround("u1"),
+      service.getLeaderboard(),
+    ]);
+
+    expect(builds).toBe(1);
+    expect(list.entries.map((entry) => entry.userId)).toEqual(["u1", "u2"]);
+    expect(list.user?.rank).toBe(2);
+    expect(around.user?.rank).toBe(1);
+  });
+
+  test("caches getLeaderboard responses until a write touches the timeframe", async () => {
+    const store = createMemoryLeaderboardStore({
+      categories: ["profit"] as const,
+      timeframes: ["24h", "7d"] as const,
+    });
+    let reads = 0;
+    const top = store.getTopRankedUsers.bind(store);
+    store.getTopRankedUsers = async (...args) => {
+      reads += 1;
+      return top(...args);
+    };
+
+    const service = createLeaderboardService(
+      {
+        categories: ["profit"] as const,
+        defaultCategory: "profit",
+        timeframes: ["24h", "7d"] as const,
+        defaultTimeframe: "24h",
+        responseCache: { ttlMs: 60_000 },
+        realtimeTimeframes: [],
+      },
+      { store },
+    );
+    const ids = async (timeframe: "24h" | "7d" = "24h") =>
+      (await service.getLeaderboard({ timeframe })).entries.map((entry) => entry.userId);
+
+    await service.ingest([["u1", { profit: 5 }]]);
+    await service.rebuild(["24h", "7d"]);
+    const [first, second] = await Promise.all([
+      service.getLeaderboard({ limit: 10 }),
+      service.getLeaderboard({ limit: 10, sort: "desc" }),
+    ]);
+    expect(second).toBe(first);
+    expect(reads).toBe(1);
+    await service.getLeaderboard({ limit: 10 }, "u1");
+    expect(reads).toBe(2);
+
+    // Non-realtime timeframes only change on rebuild.
+    await service.ingest([["u2", { profit: 9 }]]);
+    expect(await ids()).toEqual(["u1"]);
+    expect(await ids("7d")).toEqual(["u1"]);
+    await service.rebuild(["24h"]);
+    expect(await ids()).toEqual(["u2", "u1"]);
+    expect(await ids("7d")).toEqual(["u1"]);
+  });
+
+  test("reports each entry's rank movement since the previous build", async () => {
+    const store = createMemoryLeaderboardStore({
+      categories: ["profit"] as const,
+      timeframes: ["24h"] as const,
+    });
+    const service = createLeaderboardService(
+      {
+        categories: ["profit"] as const,
+        defaultCategory: "profit",
+        timeframes: ["24h"] as const,
+        defaultTimeframe: "24h",
+      },
+      { store },
+    );
+    const movement = async () =>
+      (await service.getLeaderboard({}, "u3")).entries.map((entry) => [
+        entry.userId,
+        entry.rank,
+        entry.previousRank,
+        entry.rankDelta,
+      ]);
+
+    await service.ingest([["u1", { profit: 5 }], ["u2", { profit: 3 }]]);
+    await service.rebuild(["24h"]);
+    expect(await movement()).toEqual([
+      ["u1", 1, null, null],
+      ["u2", 2, null, null],
+    ]);
+
+    await service.ingest([["u2", { profit: 4 }], ["u3", { profit: 1 }]]);
+    await service.rebuild(["24h"]);
+    const pinned = await service.getLeaderboard();
+    expect(await movement()).toEqual([
+      ["u2", 1, 2, 1],
+      ["u1", 2, 1, -1],
+      ["u3", 3, null, null],
+    ]);
+    expect((await service.getAround("u1")).user).toMatchObject({ previousRank: 1, rankDelta: -1 });
+
+    // Reads pinned to a superseded build have nothing to compare against.
+    await service.rebuild(["24h"]);
+    const old = await service.getLeaderboard({ version: pinned.buildVersion });
+    expect(old.entries.map((entry) => entry.previousRank)).toEqual([null, null, null]);
+    expect((await movement()).map(([, , , delta]) => delta)).toEqual([0, 0, 0]);
+  });
+
+  test("waits for another process's rebuild when the lock is taken", async () => {
+    const store = createMemoryLeaderboardStore({
+      categories: ["profit"] as const,
+      timeframes: ["24h"] as const,
+    });
+    let builds = 0;
+    const build = store.buildRankingFromWindows.bind(store);
+    store.buildRankingFromWindows = async (...args) => {
+      builds += 1;
+      await build(...args);
+    };
+    const lockedStore = Object.assign(store, {
+      acquireLock: async () => null,
+      releaseLock: async () => {},
+    });
+
+    const service = createLeaderboardService(
+      {
+        categories: ["profit"] as const,
+        defaultCategory: "profit",
+        timeframes: ["24h"] as const,
+        defaultTimeframe: "24h",
+        readThrough: { pollIntervalMs: 5, waitTimeoutMs: 1_000 },
+      },
+      { store: lockedStore },
+    );
+
+    await store.ingestWindows([["u1", { profit: 5 }]]);
+    const pending = service.getLeaderboard();
+    // The lock holder finishes its rebuild while this reader polls.
+    setTimeout(() => void build("24h"), 20);
+
+    expect((await pending).entries.map((entry) => entry.userId)).toEqual(["u1"]);
+    expect(builds).toBe(0);
+  });
+
   test("supports in-memory adapter for local/demo usage", async () => {
     const store = createMemoryLeaderboardStore({
       categories: ["profit", "wagered"] as const,
@@ -83,4 +276,276 @@ describe("rolling leaderboard service (unit)", () => {
     expect(result.entries.map((entry) => entry.userId)).toEqual(["u2", "u1"]);
     expect(result.entries[0]?.scores.wagered).toBe(30);
   });
+
+  test("reports the board total and the current user's percentile", async () => {
+    const store = createMemoryLeaderboardStore({
+      categories: ["profit"] as const,
+      timeframes: ["24h"] as const,
+    });
+
+    const service = createLeaderboardService(
+      {
+        categories: ["profit"] as const,
+        defaultCategory: "profit",
+        timeframes: ["24h"] as const,
+        defaultTimeframe: "24h",
+      },
+      { store },
+    );
+
+    await service.ingest(
+      Array.from({ length: 8 }).map((_, i) => [`u${i + 1}`, { profit: 100 - i }]),
+    );
+    await service.rebuild(["24h"]);
+
+    const result = await service.getLeaderboard({ timeframe: "24h", limit: 2 }, "u6");
+    expect(result.total).toBe(8);
+    expect(result.user?.rank).toBe(6);
+    expect(result.user?.percentile).toBe(75);
+    expect(result.entries[0]?.percentile).toBeUndefined();
+  });
+
+  test("computes percentiles from the competition position under dense ranks", async () => {
+    const store = createMemoryLeaderboardStore({
+      categories: ["profit"] as const,
+      timeframes: ["24h"] as const,
+    });
+    const service = createLeaderboardService(
+      {
+        categories: ["profit"] as const,
+        defaultCategory: "profit",
+        timeframes: ["24h"] as const,
+        defaultTimeframe: "24h",
+        rankStrategy: "dense",
+      },
+      { store },
+    );
+
+    await service.ingest([
+      ["u1", { profit: 10 }],
+      ["u2", { profit: 10 }],
+      ["u3", { profit: 10 }],
+      ["u4", { profit: 5 }],
+    ]);
+    await service.rebuild(["24h"]);
+
+    const last = await service.getLeaderboard({ timeframe: "24h", limit: 1 }, "u4");
+    expect(last.user?.rank).toBe(2);
+    expect(last.user?.percentile).toBe(100);
+    const tied = await service.getLeaderboard({ timeframe: "24h", limit: 1 }, "u3");
+    expect(tied.user?.percentile).toBe(25);
+  });
+
+  test("returns the neighbourhood around a user", async () => {
+    const store = createMemoryLeaderboardStore({
+      categories: ["profit"] as const,
+      timeframes: ["24h"] as const,
+    });
+
+    const service = createLeaderboardService(
+      {
+        categories: ["profit"] as const,
+        defaultCategory: "profit",
+        timeframes: ["24h"] as const,
+        defaultTimeframe: "24h",
+      },
+      {
+        store,
+        usernames: {
+          async getUsernames(userIds) {
+            return new Map(userIds.map((id) => [id, `name:${id}`]));
+          },
+        },
+      },
+    );
+
+    await service.ingest(
+      Array.from({ length: 10 }).map((_, i) => [`u${i + 1}`, { profit: 100 - i }]),
+    );
+    await service.rebuild(["24h"]);
+
+    const around = await service.getAround("u5", { timeframe: "24h" }, { above: 2, below: 1 });
+    expect(around.entries.map((entry) => [entry.userId, entry.rank])).toEqual([
+      ["u3", 3],
+      ["u4", 4],
+      ["u5", 5],
+      ["u6", 6],
+    ]);
+    expect(around.user?.username).toBe("name:u5");
+
+    const top = await service.getAround("u1", { timeframe: "24h" }, { above: 3, below: 0 });
+    expect(top.entries.map((entry) => entry.userId)).toEqual(["u1"]);
+
+    const missing = await service.getAround("nobody", { timeframe: "24h" });
+    expect(missing).toMatchObject({ entries: [], user: null });
+  });
+
+  test("paginates with offsets and opaque cursors", async () => {
+    const store = createMemoryLeaderboardStore({
+      categories: ["profit"] as const,
+      timeframes: ["24h"] as const,
+    });
+
+    const service = createLeaderboardService(
+      {
+        categories: ["profit"] as const,
+        defaultCategory: "profit",
+        timeframes: ["24h"] as const,
+        defaultTimeframe: "24h",
+        maxLimit: 3,
+      },
+      { store },
+    );
+
+    await service.ingest(
+      Array.from({ length: 7 }).map((_, i) => [`u${i + 1}`, { profit: 100 - i }]),
+    );
+    await service.rebuild(["24h"]);
+
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await service.getLeaderboard({ timeframe: "24h", limit: 3, cursor });
+      seen.push(...page.entries.map((entry) => `${entry.rank}:${entry.userId}`));
+      expect(page.hasMore).toBe(page.nextCursor !== null);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(seen).toEqual(["1:u1", "2:u2", "3:u3", "4:u4", "5:u5", "6:u6", "7:u7"]);
+
+    const byOffset = await service.getLeaderboard({ timeframe: "24h", offset: 5 });
+    expect(byOffset.entries.map((entry) => entry.userId)).toEqual(["u6", "u7"]);
+    expect(byOffset.hasMore).toBeFalse();
+
+    await expect(
+      service.getLeaderboard({ timeframe: "24h", cursor: "not-a-cursor" }),
+    ).rejects.toThrow(LeaderboardQueryError);
+    const first = await service.getLeaderboard({ timeframe: "24h", limit: 1 });
+    await expect(
+      service.getLeaderboard({ timeframe: "24h", sort: "asc", cursor: first.nextCursor }),
+    ).rejects.toThrow(LeaderboardQueryError);
+  });
+
+  test("pages with cursors through non-ASCII timeframe and category names", async () => {
+    const store = createMemoryLeaderboardStore({
+      categories: ["利益"] as const,
+      timeframes: ["日"] as const,
+    });
+    const service = createLeaderboardService(
+      {
+        categories: ["利益"] as const,
+        defaultCategory: "利益",
+        timeframes: ["日"] as const,
+        defaultTimeframe: "日",
+      },
+      { store },
+    );
+
+    await service.ingest([["u1", { 利益: 2 }], ["u2", { 利益: 1 }]]);
+    await service.rebuild(["日"]);
+
+    const first = await service.getLeaderboard({ timeframe: "日", limit: 1 });
+    expect(first.nextCursor).not.toBeNull();
+    const second = await service.getLeaderboard({ timeframe: "日", cursor: first.nextCursor });
+    expect(second.entries.map((entry) => entry.userId)).toEqual(["u2"]);
+  });
+
+  test("keeps cursor pages on the build they started from", async () => {
+    const store = createMemoryLeaderboardStore({
+      categories: ["profit"] as const,
+      timeframes: ["24h"] as const,
+    });
+
+    const service = createLeaderboardService(
+      {
+        categories: ["profit"] as const,
+        defaultCategory: "profit",
+        timeframes: ["24h"] as const,
+        defaultTimeframe: "24h",
+      },
+      { store },
+    );
+
+    await service.ingest([["u1", { profit: 30 }], ["u2", { profit: 20 }], ["u3", { profit: 10 }]]);
+    await service.rebuild(["24h"]);
+
+    const first = await service.getLeaderboard({ limit: 2 });
+    expect(first.buildVersion).not.toBeNull();
+    expect(first.builtAt).toBeNumber();
+
+    await service.ingest([["u3", { profit: 100 }]]);
+    await service.rebuild(["24h"]);
+
+    const second = await service.getLeaderboard({ limit: 2, cursor: first.nextCursor }, "u3");
+    expect(second.buildVersion).toBe(first.buildVersion);
+    expect(second.builtAt).toBe(first.builtAt);
+    expect(second.entries.map((entry) => [entry.userId, entry.scores.profit])).toEqual([
+      ["u3", 10],
+    ]);
+
+    const live = await service.getLeaderboard({ limit: 2 });
+    expect(live.buildVersion).not.toBe(first.buildVersion);
+    expect(live.entries.map((entry) => entry.userId)).toEqual(["u3", "u1"]);
+
+    const around = await service.getAround("u3", { version: first.buildVersion });
+    expect(around.user?.rank).toBe(3);
+
+    await expect(service.getLeaderboard({ version: "gone-000000" })).rejects.toThrow(
+      LeaderboardQueryError,
+    );
+  });
+
+  test("numbers tied scores according to rankStrategy", async () => {
+    const store = createMemoryLeaderboardStore({
+      categories: ["profit"] as const,
+      timeframes: ["24h"] as const,
+    });
+    await store.ingestWindows([
+      ["a", { profit: 50 }],
+      ["b", { profit: 40 }],
+      ["c", { profit: 40 }],
+      ["d", { profit: 30 }],
+      ["e", { profit: 30 }],
+      ["f", { profit: 30 }],
+      ["g", { profit: 20 }],
+    ]);
+    await store.buildRankingFromWindows("24h");
+
+    const ranksFor = async (rankStrategy: "ordinal" | "competition" | "dense") => {
+      const service = createLeaderboardService(
+        {
+          categories: ["profit"] as const,
+          defaultCategory: "profit",
+          timeframes: ["24h"] as const,
+          defaultTimeframe: "24h",
+          rankStrategy,
+        },
+        { store },
+      );
+      const all = await service.getLeaderboard({ timeframe: "24h" });
+      const page = await service.getLeaderboard({ timeframe: "24h", offset: 4, limit: 2 }, "e");
+      return {
+        all: all.entries.map((entry) => `${entry.userId}${entry.rank}`),
+        page: page.entries.map((entry) => entry.rank),
+        user: page.user?.rank,
+      };
+    };
+
+    // Ties are ordered like a Redis sorted set: member descending under ZREVRANGE.
+    expect(await ranksFor("ordinal")).toEqual({
+      all: ["a1", "c2", "b3", "f4", "e5", "d6", "g7"],
+      page: [5, 6],
+      user: 5,
+    });
+    expect(await ranksFor("competition")).toEqual({
+      all: ["a1", "c2", "b2", "f4", "e4", "d4", "g7"],
+      page: [4, 4],
+      user: 4,
+    });
+    expect(await ranksFor("dense")).toEqual({
+      all: ["a1", "c2", "b2", "f3", "e3", "d3", "g4"],
+      page: [3, 3],
+      user: 3,
+    });
+  });
 });
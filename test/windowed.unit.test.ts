@@ -41,5 +41,31 @@ describe("windowed redis config", () => {
         date: new Date("2026-01-01T00:00:00.000Z"),
       }),
     ).toEqual(["lb:window:d:points"]);
+    expect(
+      built.redis.resolveBucketStarts?.({
+        timeframe: "week",
+        category: "points",
+        date: new Date("2026-01-03T12:00:00.000Z"),
+      }),
+    ).toEqual(new Map([["lb:window:d:points", new Date("2026-01-01T00:00:00.000Z")]]));
+  });
+
+  test("ranks realtime timeframes straight from their window key", () => {
+    const built = createWindowedLeaderboardRedisConfig({
+      prefix: "lb",
+      categories: ["points"] as const,
+      timeframes: ["day", "lifetime"] as const,
+      windows: ["h", "all"] as const,
+      realtimeWindows: { lifetime: "all" },
+      getBuildWindowSources: (_timeframe, date) => [{ window: "h", date }],
+      formatWindowKey: (prefix, window, _date, category) =>
+        `${prefix}:window:${window}:${category}`,
+    });
+
+    expect(built.redis.realtimeTimeframes).toEqual(["lifetime"]);
+    expect(built.keys.rank("lifetime", "points")).toBe("lb:window:all:points");
+    expect(built.redis.resolveRankKey?.({ timeframe: "day", category: "points" })).toBe(
+      "lb:ranking:day:points",
+    );
   });
 });
@@ -53,4 +53,12 @@ describe("zod query schema", () => {
 
     expect(result.success).toBeFalse();
   });
+
+  test("accepts offset and cursor pagination", () => {
+    const schema = lbQuerySchema(definition);
+
+    expect(schema.list.parse({ offset: 25 }).offset).toBe(25);
+    expect(schema.list.parse({ cursor: "abc" }).cursor).toBe("abc");
+    expect(schema.list.safeParse({ offset: -1 }).success).toBeFalse();
+  });
 });